@@ -0,0 +1,41 @@
+import type { ContextTimedInput } from './types.js';
+import { PromiseCancellable } from '@matrixai/async-cancellable';
+import * as utils from './utils.js';
+
+/**
+ * Event that wakes exactly one waiter each time it is set.
+ * Waiters are woken in order. If there are no waiters, the event stays set
+ * until the next wait, which resets it.
+ */
+class AutoResetEvent {
+  protected _isSet: boolean;
+  protected waiters: utils.Waiters = new utils.Waiters(AutoResetEvent.name);
+
+  public constructor(isSet: boolean = false) {
+    this._isSet = isSet;
+  }
+
+  public isSet(): boolean {
+    return this._isSet;
+  }
+
+  public set(): void {
+    if (!this.waiters.wakeOne()) {
+      this._isSet = true;
+    }
+  }
+
+  public reset(): void {
+    this._isSet = false;
+  }
+
+  public wait(ctx?: Partial<ContextTimedInput>): PromiseCancellable<void> {
+    if (this._isSet) {
+      this._isSet = false;
+      return PromiseCancellable.resolve();
+    }
+    return this.waiters.wait(ctx);
+  }
+}
+
+export default AutoResetEvent;
@@ -2,11 +2,15 @@ import type { ResourceRelease } from '@matrixai/resources';
 import type { ContextTimedInput } from './types.js';
 import { PromiseCancellable } from '@matrixai/async-cancellable';
 import Lock from './Lock.js';
+import * as errors from './errors.js';
 
 class Barrier {
   protected lock: Lock;
+  protected initialCount: number;
   protected _count: number;
   protected release: ResourceRelease;
+  protected broken: boolean = false;
+  protected waitPs: Set<PromiseCancellable<void>> = new Set();
 
   public static async createBarrier(count: number) {
     const lock = new Lock();
@@ -22,6 +26,7 @@ class Barrier {
     }
     this.lock = lock;
     this.release = release;
+    this.initialCount = count;
     this._count = count;
   }
 
@@ -29,19 +34,78 @@ class Barrier {
     return this._count;
   }
 
+  /**
+   * The barrier is broken when a waiter times out or is aborted, because it
+   * can no longer be tripped. Use `reset` to restore it.
+   */
+  public isBroken(): boolean {
+    return this.broken;
+  }
+
   public async destroy() {
     await this.release();
   }
 
+  /**
+   * If this wait times out or is aborted, the barrier is broken, and all
+   * current and future waiters reject with `ErrorAsyncLocksBarrierBroken`.
+   */
   public wait(ctx?: Partial<ContextTimedInput>): PromiseCancellable<void> {
+    if (this.broken) {
+      return PromiseCancellable.reject(
+        new errors.ErrorAsyncLocksBarrierBroken(),
+      );
+    }
     if (!this.lock.isLocked()) {
       return PromiseCancellable.resolve();
     }
     this._count = Math.max(this._count - 1, 0);
     if (this._count === 0) {
       return PromiseCancellable.from(this.release());
-    } else {
-      return this.lock.waitForUnlock(ctx);
+    }
+    const waitP = this.lock.waitForUnlock(ctx);
+    this.waitPs.add(waitP);
+    return waitP.then(
+      () => {
+        this.waitPs.delete(waitP);
+      },
+      (e) => {
+        this.waitPs.delete(waitP);
+        if (!this.broken) this.break();
+        throw e;
+      },
+      (signal) => {
+        // Propagate cancellation to `waitP`
+        signal.addEventListener(
+          'abort',
+          () => {
+            waitP.cancel(signal.reason);
+          },
+          { once: true },
+        );
+      },
+    );
+  }
+
+  /**
+   * Restores the barrier to its initial count.
+   * Current waiters reject with `ErrorAsyncLocksBarrierBroken`.
+   */
+  public async reset(): Promise<void> {
+    this.break();
+    if (!this.lock.isLocked()) {
+      [this.release] = await this.lock.lock()();
+    }
+    this._count = this.initialCount;
+    this.broken = false;
+  }
+
+  protected break(): void {
+    this.broken = true;
+    const waitPs = [...this.waitPs];
+    this.waitPs.clear();
+    for (const waitP of waitPs) {
+      waitP.cancel(new errors.ErrorAsyncLocksBarrierBroken());
     }
   }
 }
@@ -0,0 +1,234 @@
+import type { PromiseCancellable } from '@matrixai/async-cancellable';
+import type { ResourceRelease } from '@matrixai/resources';
+import type {
+  ResourceAcquireCancellable,
+  TimeoutData,
+  ContextTimed,
+  ContextTimedInput,
+  ContextLockInput,
+} from './types.js';
+import type RWLockReader from './RWLockReader.js';
+import type RWLockWriter from './RWLockWriter.js';
+import { withF, withG } from '@matrixai/resources';
+import Lock from './Lock.js';
+import * as utils from './utils.js';
+import * as errors from './errors.js';
+
+/**
+ * Condition variable bound to a lock.
+ * The lock must be held through the condition to wait on it, read write
+ * locks are held for `write`.
+ * Waiters are woken in the order they started waiting.
+ */
+class Condition<L extends Lock | RWLockReader | RWLockWriter = Lock> {
+  protected _lock: L;
+  protected release?: ResourceRelease;
+  protected waiters: Set<() => void> = new Set();
+
+  public constructor(lock: L) {
+    this._lock = lock;
+  }
+
+  /**
+   * Number of waiters that have not been woken.
+   */
+  public get waiterCount(): number {
+    return this.waiters.size;
+  }
+
+  /**
+   * Checks if the lock is held through this condition.
+   */
+  public isHeld(): boolean {
+    return this.release != null;
+  }
+
+  /**
+   * Locks the lock so that the holder can wait on this condition.
+   * The release releases the lock that was last reacquired by `wait`.
+   */
+  public lock(
+    ctx?: Partial<ContextLockInput>,
+  ): ResourceAcquireCancellable<Condition<L>> {
+    const acquire = this.acquireLock(ctx);
+    return () => {
+      const acquireP = acquire();
+      return acquireP.then(
+        ([release]) => {
+          this.release = release;
+          let released = false;
+          return [
+            async () => {
+              if (released) return;
+              released = true;
+              const release = this.release;
+              delete this.release;
+              await release?.();
+            },
+            this,
+          ] as const;
+        },
+        undefined,
+        (signal) => {
+          // Propagate cancellation to `acquireP`
+          signal.addEventListener(
+            'abort',
+            () => {
+              acquireP.cancel(signal.reason);
+            },
+            { once: true },
+          );
+        },
+      );
+    };
+  }
+
+  /**
+   * Atomically releases the lock and waits until this waiter is woken by
+   * `signal` or `broadcast`.
+   * The lock is always reacquired before this resolves or rejects, even if
+   * the wait times out or is aborted.
+   * This must only be called by the holder of the lock.
+   */
+  public wait(ctx?: Partial<ContextTimedInput>): PromiseCancellable<void> {
+    if (this.release == null) {
+      throw new errors.ErrorAsyncLocksConditionNotHeld(
+        'Cannot wait on the condition without holding its lock',
+      );
+    }
+    ctx = ctx != null ? { ...ctx } : {};
+    let waiter: (() => void) | undefined;
+    return utils.setupTimedCancellable(
+      async (ctx: ContextTimed) => {
+        if (ctx.signal.aborted) throw ctx.signal.reason;
+        const release = this.release!;
+        delete this.release;
+        const { p: waitP, resolveP: resolveWaitP } = utils.promise();
+        let woken = false;
+        waiter = () => {
+          woken = true;
+          resolveWaitP();
+        };
+        const abortHandler = () => {
+          this.waiters.delete(waiter!);
+          resolveWaitP();
+        };
+        this.waiters.add(waiter);
+        ctx.signal.addEventListener('abort', abortHandler, { once: true });
+        await release();
+        await waitP;
+        ctx.signal.removeEventListener('abort', abortHandler);
+        [this.release] = await this.acquireLock()();
+        if (!woken) throw ctx.signal.reason;
+      },
+      true,
+      Infinity,
+      errors.ErrorAsyncLocksTimeout,
+      ctx,
+      [],
+      () => this.timeoutData(waiter),
+    );
+  }
+
+  /**
+   * Waits until the `predicate` is true.
+   * The `predicate` is checked while holding the lock, first before waiting,
+   * and then each time this waiter is woken.
+   * This must only be called by the holder of the lock.
+   */
+  public waitFor(
+    predicate: () => boolean,
+    ctx?: Partial<ContextTimedInput>,
+  ): PromiseCancellable<void> {
+    if (this.release == null) {
+      throw new errors.ErrorAsyncLocksConditionNotHeld(
+        'Cannot wait on the condition without holding its lock',
+      );
+    }
+    ctx = ctx != null ? { ...ctx } : {};
+    return utils.setupTimedCancellable(
+      async (ctx: ContextTimed) => {
+        while (!predicate()) {
+          await this.wait(ctx);
+        }
+      },
+      true,
+      Infinity,
+      errors.ErrorAsyncLocksTimeout,
+      ctx,
+      [],
+    );
+  }
+
+  /**
+   * Wakes the longest waiting waiter.
+   */
+  public signal(): void {
+    for (const waiter of this.waiters) {
+      this.waiters.delete(waiter);
+      waiter();
+      return;
+    }
+  }
+
+  /**
+   * Wakes all waiters.
+   */
+  public broadcast(): void {
+    const waiters = [...this.waiters];
+    this.waiters.clear();
+    for (const waiter of waiters) {
+      waiter();
+    }
+  }
+
+  public withF<T>(
+    ...params: [
+      ...([ctx?: Partial<ContextLockInput>] | []),
+      (condition: Condition<L>) => Promise<T>,
+    ]
+  ): Promise<T> {
+    const f = params.pop() as (condition: Condition<L>) => Promise<T>;
+    return withF([this.lock(...(params as any))], ([condition]) =>
+      f(condition),
+    );
+  }
+
+  public withG<T, TReturn, TNext>(
+    ...params: [
+      ...([ctx?: Partial<ContextLockInput>] | []),
+      (condition: Condition<L>) => AsyncGenerator<T, TReturn, TNext>,
+    ]
+  ): AsyncGenerator<T, TReturn, TNext> {
+    const g = params.pop() as (
+      condition: Condition<L>,
+    ) => AsyncGenerator<T, TReturn, TNext>;
+    return withG([this.lock(...(params as any))], ([condition]) =>
+      g(condition),
+    );
+  }
+
+  /**
+   * Read write locks are locked for `write`.
+   */
+  protected acquireLock(
+    ctx?: Partial<ContextLockInput>,
+  ): ResourceAcquireCancellable<unknown> {
+    if (this._lock instanceof Lock) return this._lock.lock(ctx);
+    return this._lock.write(ctx);
+  }
+
+  protected timeoutData(waiter?: () => void): Omit<TimeoutData, 'elapsed'> {
+    let queuePosition: number | undefined;
+    if (waiter != null && this.waiters.has(waiter)) {
+      queuePosition = [...this.waiters].indexOf(waiter);
+    }
+    return {
+      lock: Condition.name,
+      queuePosition,
+      holderCount: this._lock.isLocked() ? 1 : 0,
+    };
+  }
+}
+
+export default Condition;
@@ -0,0 +1,52 @@
+import type { ContextTimedInput } from './types.js';
+import { PromiseCancellable } from '@matrixai/async-cancellable';
+import * as utils from './utils.js';
+
+/**
+ * One-shot latch that opens when its count reaches 0.
+ * Unlike `Barrier`, counting down does not block, and waiting does not
+ * count down. Once open, the latch stays open.
+ */
+class CountDownLatch {
+  protected _count: number;
+  protected waiters: utils.Waiters = new utils.Waiters(CountDownLatch.name);
+
+  public constructor(count: number) {
+    if (count < 0) {
+      throw new RangeError(
+        'CountDownLatch must be constructed with `count` >= 0',
+      );
+    }
+    this._count = count;
+  }
+
+  public get count(): number {
+    return this._count;
+  }
+
+  /**
+   * Counts down by `n` without blocking.
+   * The count does not go below 0.
+   */
+  public countDown(n: number = 1): void {
+    if (n < 0) {
+      throw new RangeError('CountDownLatch must count down with `n` >= 0');
+    }
+    if (this._count === 0) return;
+    this._count = Math.max(this._count - n, 0);
+    if (this._count > 0) return;
+    this.waiters.wakeAll();
+  }
+
+  /**
+   * Waits until the count reaches 0.
+   */
+  public wait(ctx?: Partial<ContextTimedInput>): PromiseCancellable<void> {
+    if (this._count === 0) {
+      return PromiseCancellable.resolve();
+    }
+    return this.waiters.wait(ctx);
+  }
+}
+
+export default CountDownLatch;
@@ -0,0 +1,146 @@
+import type {
+  PromiseDeconstructed,
+  ContextTimed,
+  ContextTimedInput,
+} from './types.js';
+import { PromiseCancellable } from '@matrixai/async-cancellable';
+import * as utils from './utils.js';
+import * as errors from './errors.js';
+
+/**
+ * Reusable barrier for a fixed number of `parties`.
+ * The barrier trips when all parties have arrived, and then resets for the
+ * next generation. The optional `action` is run with the tripped generation
+ * before the parties of that generation are resumed.
+ * The barrier is broken when a party times out or is aborted, or when the
+ * `action` throws before any party has arrived for a newer generation, and
+ * then all current and future parties reject with
+ * `ErrorAsyncLocksBarrierBroken` until it is reset.
+ */
+class CyclicBarrier {
+  public readonly parties: number;
+
+  protected action?: (generation: number) => void | PromiseLike<void>;
+  protected _generation: number = 0;
+  protected broken: boolean = false;
+  protected arrivals: Set<PromiseDeconstructed<number>> = new Set();
+
+  public constructor(
+    parties: number,
+    action?: (generation: number) => void | PromiseLike<void>,
+  ) {
+    if (parties < 1) {
+      throw new RangeError(
+        'CyclicBarrier must be constructed with `parties` >= 1',
+      );
+    }
+    this.parties = parties;
+    this.action = action;
+  }
+
+  /**
+   * Number of parties that have yet to arrive in the current generation.
+   */
+  public get count(): number {
+    return this.parties - this.arrivals.size;
+  }
+
+  public get generation(): number {
+    return this._generation;
+  }
+
+  public isBroken(): boolean {
+    return this.broken;
+  }
+
+  /**
+   * Arrives at the barrier and waits for the other parties.
+   * Resolves to the generation that was tripped.
+   * If the `action` throws, all parties of the generation reject with it.
+   */
+  public wait(ctx?: Partial<ContextTimedInput>): PromiseCancellable<number> {
+    if (this.broken) {
+      return PromiseCancellable.reject(
+        new errors.ErrorAsyncLocksBarrierBroken(),
+      );
+    }
+    ctx = ctx != null ? { ...ctx } : {};
+    return utils.setupTimedCancellable(
+      (ctx: ContextTimed) => {
+        const arrival = utils.promise<number>();
+        if (ctx.signal.aborted) {
+          arrival.rejectP(ctx.signal.reason);
+          this.break();
+          return arrival.p;
+        }
+        if (this.arrivals.size + 1 >= this.parties) {
+          // The last party trips the barrier
+          const arrivals = [...this.arrivals, arrival];
+          this.arrivals.clear();
+          void this.trip(this._generation++, arrivals);
+          return arrival.p;
+        }
+        const abortHandler = () => {
+          this.arrivals.delete(arrival);
+          arrival.rejectP(ctx.signal.reason);
+          this.break();
+        };
+        const teardown = () => {
+          ctx.signal.removeEventListener('abort', abortHandler);
+        };
+        ctx.signal.addEventListener('abort', abortHandler, { once: true });
+        void arrival.p.then(teardown, teardown);
+        this.arrivals.add(arrival);
+        return arrival.p;
+      },
+      true,
+      Infinity,
+      errors.ErrorAsyncLocksTimeout,
+      ctx,
+      [],
+      () => ({ lock: CyclicBarrier.name }),
+    );
+  }
+
+  /**
+   * Restores the barrier for a new generation.
+   * Current parties reject with `ErrorAsyncLocksBarrierBroken`.
+   */
+  public reset(): void {
+    this.break();
+    this.broken = false;
+    this._generation++;
+  }
+
+  protected break(): void {
+    this.broken = true;
+    const arrivals = [...this.arrivals];
+    this.arrivals.clear();
+    for (const arrival of arrivals) {
+      arrival.rejectP(new errors.ErrorAsyncLocksBarrierBroken());
+    }
+  }
+
+  protected async trip(
+    generation: number,
+    arrivals: Array<PromiseDeconstructed<number>>,
+  ): Promise<void> {
+    try {
+      await this.action?.(generation);
+    } catch (e) {
+      // Parties of a newer generation did not take part in this generation
+      if (this._generation === generation + 1 && this.arrivals.size === 0) {
+        this.break();
+      }
+      for (const arrival of arrivals) {
+        arrival.rejectP(e);
+      }
+      return;
+    }
+    for (const arrival of arrivals) {
+      arrival.resolveP(generation);
+    }
+  }
+}
+
+export default CyclicBarrier;
@@ -1,14 +1,51 @@
 import type { PromiseCancellable } from '@matrixai/async-cancellable';
 import type {
   ResourceAcquireCancellable,
+  ResourceAcquireFenced,
+  ResourceReleaseFenced,
   Lockable,
-  ContextTimedInput,
+  LockGuardSync,
+  LockLease,
+  LockInstrument,
+  LockStatsData,
+  ContextLockInput,
 } from './types.js';
+import type Watchdog from './Watchdog.js';
 import { withF, withG } from '@matrixai/resources';
+import { Timer } from '@matrixai/timer';
 import Semaphore from './Semaphore.js';
+import * as utils from './utils.js';
+import * as errors from './errors.js';
 
 class Lock implements Lockable {
-  protected semaphore: Semaphore = new Semaphore(1);
+  protected semaphore: Semaphore;
+  protected watchdog?: Watchdog;
+
+  /**
+   * See `Semaphore` for the `aging` of waiters with explicit priorities, and
+   * for the `maxQueueLength` of waiters.
+   * The lifecycle events of the lock are emitted to `instrument`.
+   * Holds are watched by the `watchdog` for leaks and long holds.
+   */
+  public constructor({
+    aging,
+    maxQueueLength,
+    instrument,
+    watchdog,
+  }: {
+    aging?: number;
+    maxQueueLength?: number;
+    instrument?: LockInstrument;
+    watchdog?: Watchdog;
+  } = {}) {
+    this.semaphore = new Semaphore(1, false, {
+      aging,
+      maxQueueLength,
+      instrument,
+      lockName: Lock.name,
+    });
+    this.watchdog = watchdog;
+  }
 
   public get count(): number {
     return this.semaphore.count;
@@ -18,14 +55,13 @@ class Lock implements Lockable {
     return this.semaphore.isLocked();
   }
 
-  public lock(
-    ctx?: Partial<ContextTimedInput>,
-  ): ResourceAcquireCancellable<Lock> {
+  public lock(ctx?: Partial<ContextLockInput>): ResourceAcquireFenced<Lock> {
     const acquire = this.semaphore.lock(1, ctx);
     return () => {
+      const stack = this.watchdog?.trace();
       const acquireP = acquire();
       return acquireP.then(
-        ([release]) => [release, this],
+        ([release]) => [this.watch(release, stack), this],
         undefined,
         (signal) => {
           // Propagate cancellation to `acquireP`
@@ -41,15 +77,119 @@ class Lock implements Lockable {
     };
   }
 
+  /**
+   * Locks with a lease of `duration` milliseconds.
+   * The lock is forcibly released when the lease expires, and the `signal`
+   * of the lease is aborted with `ErrorAsyncLocksLeaseExpired`.
+   * Renewing the lease restarts the expiry with the new `duration`, which
+   * defaults to the original `duration`. Durations must be finite and >= 0.
+   */
+  public lease(
+    duration: number,
+    ctx?: Partial<ContextLockInput>,
+  ): ResourceAcquireCancellable<LockLease<Lock>> {
+    if (!Number.isFinite(duration) || duration < 0) {
+      throw new RangeError('Lock must be leased with a finite `duration` >= 0');
+    }
+    const acquire = this.lock(ctx);
+    return () => {
+      const acquireP = acquire();
+      return acquireP.then(
+        ([release]) => {
+          const abortController = new AbortController();
+          let status: 'held' | 'expired' | 'released' = 'held';
+          const timer = new Timer(() => {
+            status = 'expired';
+            abortController.abort(
+              new errors.ErrorAsyncLocksLeaseExpired(
+                `Lock lease has expired after ${timer.delay}ms`,
+              ),
+            );
+            void release();
+          }, duration);
+          const lease: LockLease<Lock> = {
+            lock: this,
+            token: release.token,
+            signal: abortController.signal,
+            renew: (duration_: number = duration) => {
+              if (status !== 'held') {
+                throw new errors.ErrorAsyncLocksLeaseExpired(
+                  `Lock lease cannot be renewed after it has ${status}`,
+                );
+              }
+              if (!Number.isFinite(duration_) || duration_ < 0) {
+                throw new RangeError(
+                  'Lock lease must be renewed with a finite `duration` >= 0',
+                );
+              }
+              timer.reset(duration_);
+            },
+          };
+          return [
+            async () => {
+              if (status === 'held') {
+                status = 'released';
+                timer.cancel();
+              }
+              await release();
+            },
+            lease,
+          ] as const;
+        },
+        undefined,
+        (signal) => {
+          // Propagate cancellation to `acquireP`
+          signal.addEventListener(
+            'abort',
+            () => {
+              acquireP.cancel(signal.reason);
+            },
+            { once: true },
+          );
+        },
+      );
+    };
+  }
+
+  /**
+   * Contention statistics since construction or the last `resetStats`.
+   */
+  public stats(): LockStatsData {
+    return this.semaphore.stats();
+  }
+
+  public resetStats(): void {
+    this.semaphore.resetStats();
+  }
+
+  /**
+   * Locks and resolves to a guard that releases the lock when disposed.
+   */
+  public acquire(
+    ctx?: Partial<ContextLockInput>,
+  ): PromiseCancellable<LockGuardSync<Lock>> {
+    return utils.lockGuard(this.lock(ctx)(), this, true);
+  }
+
+  /**
+   * Attempt to lock without queueing.
+   * Returns `undefined` if the lock is not immediately available.
+   */
+  public tryLock(): ResourceReleaseFenced | undefined {
+    const release = this.semaphore.tryLock(1);
+    if (release == null) return;
+    return this.watch(release, this.watchdog?.trace());
+  }
+
   public waitForUnlock(
-    ctx?: Partial<ContextTimedInput>,
+    ctx?: Partial<ContextLockInput>,
   ): PromiseCancellable<void> {
     return this.semaphore.waitForUnlock(1, ctx);
   }
 
   public withF<T>(
     ...params: [
-      ...([ctx?: Partial<ContextTimedInput>] | []),
+      ...([ctx?: Partial<ContextLockInput>] | []),
       (lock: Lock) => Promise<T>,
     ]
   ): Promise<T> {
@@ -59,13 +199,27 @@ class Lock implements Lockable {
 
   public withG<T, TReturn, TNext>(
     ...params: [
-      ...([ctx?: Partial<ContextTimedInput>] | []),
+      ...([ctx?: Partial<ContextLockInput>] | []),
       (lock: Lock) => AsyncGenerator<T, TReturn, TNext>,
     ]
   ): AsyncGenerator<T, TReturn, TNext> {
     const g = params.pop() as (lock: Lock) => AsyncGenerator<T, TReturn, TNext>;
     return withG([this.lock(...(params as any))], ([lock]) => g(lock));
   }
+
+  /**
+   * The fencing token of the semaphore is kept on the watched release.
+   */
+  protected watch(
+    release: ResourceReleaseFenced,
+    stack?: string,
+  ): ResourceReleaseFenced {
+    if (this.watchdog == null) return release;
+    return utils.fence(
+      this.watchdog.watch(release, { lock: Lock.name, stack: stack! }),
+      release.token,
+    );
+  }
 }
 
 export default Lock;
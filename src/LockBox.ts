@@ -1,20 +1,78 @@
 import type { ResourceAcquire, ResourceRelease } from '@matrixai/resources';
 import type {
-  ResourceAcquireCancellable,
+  ResourceAcquireFenced,
+  ResourceReleaseFenced,
   Lockable,
+  LockGuard,
+  LockEvent,
+  LockInstrument,
+  LockStatsData,
   LockRequest,
   LockAcquireCancellable,
   LockAcquired,
   ContextTimed,
-  ContextTimedInput,
+  ContextLockInput,
 } from './types.js';
+import type Watchdog from './Watchdog.js';
 import { PromiseCancellable } from '@matrixai/async-cancellable';
 import { withF, withG } from '@matrixai/resources';
+import LockStats from './LockStats.js';
 import * as utils from './utils.js';
 import * as errors from './errors.js';
 
 class LockBox<L extends Lockable = Lockable> implements Lockable {
+  /**
+   * Acquisitions of a key that cannot be granted immediately are rejected
+   * with `ErrorAsyncLocksQueueFull` while this many acquisitions of the key
+   * are pending.
+   */
+  public readonly maxQueueLength: number;
+
+  /**
+   * Statistics are kept for at most this many keys, the statistics of the
+   * least recently locked key are discarded first. Statistics of keys are
+   * not kept by default.
+   */
+  public readonly maxKeyStats: number;
+
   protected _locks: Map<string, L> = new Map();
+  protected pending: Map<string, number> = new Map();
+  /**
+   * Fencing tokens are shared by all keys, so the tokens of a key keep
+   * increasing after its lock is deleted.
+   */
+  protected tokenCounter: number = 0;
+  protected instrument: LockInstrument;
+  protected watchdog?: Watchdog;
+  protected lockStats: LockStats = new LockStats();
+  protected keyStats: Map<string, LockStats> = new Map();
+
+  /**
+   * The lifecycle events of each key are emitted to `instrument`.
+   * This includes the keys locked by a `Monitor` using this lock box.
+   * The hold of each key is watched by the `watchdog` for leaks and long
+   * holds, this also includes the keys locked by a `Monitor`.
+   */
+  public constructor({
+    maxQueueLength = Infinity,
+    maxKeyStats = 0,
+    instrument,
+    watchdog,
+  }: {
+    maxQueueLength?: number;
+    maxKeyStats?: number;
+    instrument?: LockInstrument;
+    watchdog?: Watchdog;
+  } = {}) {
+    this.maxQueueLength = maxQueueLength;
+    this.maxKeyStats = maxKeyStats;
+    this.watchdog = watchdog;
+    this.instrument = (event) => {
+      this.lockStats.record(event);
+      this.recordKeyStats(event);
+      instrument?.(event);
+    };
+  }
 
   get locks(): ReadonlyMap<string, L> {
     return this._locks;
@@ -43,16 +101,19 @@ class LockBox<L extends Lockable = Lockable> implements Lockable {
 
   public lock(
     ...params:
-      | [...requests: Array<LockRequest<L>>, ctx: Partial<ContextTimedInput>]
+      | [...requests: Array<LockRequest<L>>, ctx: Partial<ContextLockInput>]
       | [...requests: Array<LockRequest<L>>]
-      | [ctx?: Partial<ContextTimedInput>]
-  ): ResourceAcquireCancellable<LockBox<L>> {
+      | [ctx?: Partial<ContextLockInput>]
+  ): ResourceAcquireFenced<LockBox<L>> {
     let ctx = (
       !Array.isArray(params[params.length - 1]) ? params.pop() : undefined
-    ) as Partial<ContextTimedInput> | undefined;
+    ) as Partial<ContextLockInput> | undefined;
     ctx = ctx != null ? { ...ctx } : {};
     const requests = params as Array<LockRequest<L>>;
     return () => {
+      const stack = this.watchdog?.trace();
+      // The key being acquired is reported in timeout errors
+      let keyAcquiring: string | undefined;
       return utils.setupTimedCancellable(
         async (ctx: ContextTimed) => {
           // This creates a copy of the requests
@@ -83,10 +144,19 @@ class LockBox<L extends Lockable = Lockable> implements Lockable {
                   );
                 }
               }
-              const lockAcquire = lock.lock(...lockingParams, ctx);
-              const lockAcquireP = lockAcquire();
-              const [lockRelease] = await lockAcquireP;
-              locks.push([key, lockRelease, lock]);
+              keyAcquiring = key;
+              const [lockRelease] = await this.lockKey(
+                key,
+                lock,
+                lockingParams,
+                ctx,
+              );
+              keyAcquiring = undefined;
+              locks.push([
+                key,
+                this.watch(lockRelease, key, lockingParams, stack),
+                lock,
+              ]);
             }
           } catch (e) {
             // Release all intermediate locks in reverse order
@@ -103,7 +173,7 @@ class LockBox<L extends Lockable = Lockable> implements Lockable {
           }
           let released = false;
           return [
-            async () => {
+            utils.fence(async () => {
               if (released) return;
               released = true;
               // Release all locks in reverse order
@@ -116,7 +186,7 @@ class LockBox<L extends Lockable = Lockable> implements Lockable {
                   this._locks.delete(key);
                 }
               }
-            },
+            }, ++this.tokenCounter),
             this,
           ] as const;
         },
@@ -125,10 +195,138 @@ class LockBox<L extends Lockable = Lockable> implements Lockable {
         errors.ErrorAsyncLocksTimeout,
         ctx!,
         [],
+        () => ({ key: keyAcquiring }),
       );
     };
   }
 
+  /**
+   * Contention statistics of the `key`, or aggregated over all keys.
+   * Statistics of keys are kept after their locks are released, until they
+   * are reset or discarded because of `maxKeyStats`.
+   */
+  public stats(key?: string): LockStatsData | undefined {
+    if (key == null) return this.lockStats.stats();
+    return this.keyStats.get(key)?.stats();
+  }
+
+  /**
+   * Contention statistics of each key that statistics are kept for, from the
+   * least recently locked key.
+   */
+  public statsByKey(): Map<string, LockStatsData> {
+    const stats = new Map<string, LockStatsData>();
+    for (const [key, keyStats] of this.keyStats) {
+      stats.set(key, keyStats.stats());
+    }
+    return stats;
+  }
+
+  /**
+   * Resets the statistics of all keys.
+   * Statistics of keys that are no longer locked are discarded.
+   */
+  public resetStats(): void {
+    this.lockStats.reset();
+    for (const [key, keyStats] of this.keyStats) {
+      if (this._locks.has(key)) {
+        keyStats.reset();
+      } else {
+        this.keyStats.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Locks and resolves to a guard that releases the lock when disposed.
+   */
+  public acquire(
+    ...params: Parameters<LockBox<L>['lock']>
+  ): PromiseCancellable<LockGuard<LockBox<L>>> {
+    return utils.lockGuard(this.lock(...params)(), this);
+  }
+
+  /**
+   * Attempt to lock all requests without queueing.
+   * Keys are locked in string sorted order.
+   * If any key is not immediately available, all keys acquired so far are
+   * released in reverse order and `undefined` is returned.
+   */
+  public tryLock(
+    ...requests: Array<LockRequest<L>>
+  ): ResourceReleaseFenced | undefined {
+    // This creates a copy of the requests
+    let requests_ = [...requests];
+    // Sort to ensure lock hierarchy
+    requests_.sort(([key1], [key2]) => {
+      // Deterministic string comparison according to 16-bit code units
+      if (key1 < key2) return -1;
+      if (key1 > key2) return 1;
+      return 0;
+    });
+    // Avoid duplicate locking
+    requests_ = requests_.filter(
+      ([key], i, arr) => i === 0 || key !== arr[i - 1][0],
+    );
+    const stack = this.watchdog?.trace();
+    const locks: Array<[string, ResourceRelease, L]> = [];
+    const releaseLocks = async () => {
+      // Release all locks in reverse order
+      locks.reverse();
+      for (const [key, lockRelease, lock] of locks) {
+        await lockRelease();
+        // If it is still locked, then it is held by a different context
+        // only delete if no contexts are locking the lock
+        if (!lock.isLocked()) {
+          this._locks.delete(key);
+        }
+      }
+    };
+    for (const [key, LockConstructor, ...lockingParams] of requests_) {
+      let lock = this._locks.get(key);
+      if (lock == null) {
+        lock = new LockConstructor();
+        this._locks.set(key, lock);
+      } else {
+        // It is possible to swap the lock class, but only after the lock key is released
+        if (!(lock instanceof LockConstructor)) {
+          void releaseLocks();
+          throw new errors.ErrorAsyncLocksLockBoxConflict(
+            `Lock ${key} is already locked with class ${lock.constructor.name}, which conflicts with class ${LockConstructor.name}`,
+          );
+        }
+      }
+      const lockRelease = lock.tryLock(...lockingParams);
+      if (lockRelease == null) {
+        if (!lock.isLocked()) {
+          this._locks.delete(key);
+        }
+        void releaseLocks();
+        return;
+      }
+      locks.push([
+        key,
+        this.watch(
+          utils.instrumentTryLock(
+            lockRelease,
+            this.instrument,
+            this.lockEventData(key, lockingParams),
+          ),
+          key,
+          lockingParams,
+          stack,
+        ),
+        lock,
+      ]);
+    }
+    let released = false;
+    return utils.fence(async () => {
+      if (released) return;
+      released = true;
+      await releaseLocks();
+    }, ++this.tokenCounter);
+  }
+
   public lockMulti(
     ...requests: Array<LockRequest<L>>
   ): Array<LockAcquireCancellable<L>> {
@@ -147,7 +345,8 @@ class LockBox<L extends Lockable = Lockable> implements Lockable {
     );
     const lockAcquires: Array<LockAcquireCancellable<L>> = [];
     for (const [key, LockConstructor, ...lockingParams] of requests_) {
-      const lockAcquire: ResourceAcquireCancellable<L> = () => {
+      const lockAcquire: ResourceAcquireFenced<L> = () => {
+        const stack = this.watchdog?.trace();
         let currentP: PromiseCancellable<any>;
         const f = async () => {
           let lock = this._locks.get(key);
@@ -164,8 +363,7 @@ class LockBox<L extends Lockable = Lockable> implements Lockable {
                 );
               }
             }
-            const lockAcquire = lock.lock(...lockingParams);
-            const lockAcquireP = lockAcquire();
+            const lockAcquireP = this.lockKey(key, lock, lockingParams);
             currentP = lockAcquireP;
             [lockRelease] = await lockAcquireP;
           } catch (e) {
@@ -178,16 +376,24 @@ class LockBox<L extends Lockable = Lockable> implements Lockable {
           }
           let released = false;
           return [
-            async () => {
-              if (released) return;
-              released = true;
-              await lockRelease();
-              // If it is still locked, then it is held by a different context
-              // only delete if no contexts are locking the lock
-              if (!lock!.isLocked()) {
-                this._locks.delete(key);
-              }
-            },
+            utils.fence(
+              this.watch(
+                async () => {
+                  if (released) return;
+                  released = true;
+                  await lockRelease();
+                  // If it is still locked, then it is held by a different context
+                  // only delete if no contexts are locking the lock
+                  if (!lock!.isLocked()) {
+                    this._locks.delete(key);
+                  }
+                },
+                key,
+                lockingParams,
+                stack,
+              ),
+              ++this.tokenCounter,
+            ),
             lock,
           ] as const;
         };
@@ -208,9 +414,9 @@ class LockBox<L extends Lockable = Lockable> implements Lockable {
 
   public waitForUnlock(
     ...params:
-      | [key?: string, ctx?: Partial<ContextTimedInput>]
+      | [key?: string, ctx?: Partial<ContextLockInput>]
       | [key?: string]
-      | [ctx?: Partial<ContextTimedInput>]
+      | [ctx?: Partial<ContextLockInput>]
       | []
   ): PromiseCancellable<void> {
     const key =
@@ -253,9 +459,9 @@ class LockBox<L extends Lockable = Lockable> implements Lockable {
   public withF<T>(
     ...params: [
       ...(
-        | [...requests: Array<LockRequest<L>>, ctx: Partial<ContextTimedInput>]
+        | [...requests: Array<LockRequest<L>>, ctx: Partial<ContextLockInput>]
         | [...requests: Array<LockRequest<L>>]
-        | [ctx?: Partial<ContextTimedInput>]
+        | [ctx?: Partial<ContextLockInput>]
       ),
       (lockBox: LockBox<L>) => Promise<T>,
     ]
@@ -292,9 +498,9 @@ class LockBox<L extends Lockable = Lockable> implements Lockable {
   public withG<T, TReturn, TNext>(
     ...params: [
       ...(
-        | [...requests: Array<LockRequest<L>>, ctx: Partial<ContextTimedInput>]
+        | [...requests: Array<LockRequest<L>>, ctx: Partial<ContextLockInput>]
         | [...requests: Array<LockRequest<L>>]
-        | [ctx?: Partial<ContextTimedInput>]
+        | [ctx?: Partial<ContextLockInput>]
       ),
       (lockBox: LockBox<L>) => AsyncGenerator<T, TReturn, TNext>,
     ]
@@ -331,6 +537,109 @@ class LockBox<L extends Lockable = Lockable> implements Lockable {
       );
     return withG(lockAcquires_, g);
   }
+
+  /**
+   * Locks the `lock` of the `key` for `lock` and `lockMulti`.
+   * Acquisitions that cannot be granted immediately are rejected while
+   * `maxQueueLength` acquisitions of the key are pending.
+   */
+  protected lockKey(
+    key: string,
+    lock: L,
+    lockingParams: Array<unknown>,
+    ctx?: Partial<ContextLockInput>,
+  ): PromiseCancellable<readonly [ResourceRelease, unknown?]> {
+    const pending = this.pending.get(key) ?? 0;
+    if (pending >= this.maxQueueLength) {
+      const lockRelease = lock.tryLock(...lockingParams);
+      return utils.instrumentAcquire(
+        lockRelease != null
+          ? PromiseCancellable.resolve([lockRelease, lock] as const)
+          : PromiseCancellable.reject(
+              new errors.ErrorAsyncLocksQueueFull(
+                `Lock ${key} queue is full with ${pending} waiters`,
+                {
+                  data: {
+                    lock: LockBox.name,
+                    key,
+                    queueLength: pending,
+                  },
+                },
+              ),
+            ),
+        this.instrument,
+        this.lockEventData(key, lockingParams),
+      );
+    }
+    const lockAcquire =
+      ctx != null
+        ? lock.lock(...lockingParams, ctx)
+        : lock.lock(...lockingParams);
+    const lockAcquireP = utils.instrumentAcquire(
+      lockAcquire(),
+      this.instrument,
+      this.lockEventData(key, lockingParams),
+    );
+    this.pending.set(key, pending + 1);
+    const settle = () => {
+      const pending = this.pending.get(key)! - 1;
+      if (pending === 0) {
+        this.pending.delete(key);
+      } else {
+        this.pending.set(key, pending);
+      }
+    };
+    void lockAcquireP.then(settle, settle);
+    return lockAcquireP;
+  }
+
+  /**
+   * Statistics of a key are kept from its next acquisition, which makes it
+   * the most recently locked key.
+   */
+  protected recordKeyStats(event: LockEvent): void {
+    if (this.maxKeyStats < 1) return;
+    let keyStats = this.keyStats.get(event.key!);
+    if (event.event === 'queued') {
+      keyStats ??= new LockStats();
+      this.keyStats.delete(event.key!);
+      this.keyStats.set(event.key!, keyStats);
+      if (this.keyStats.size > this.maxKeyStats) {
+        this.keyStats.delete(this.keyStats.keys().next().value!);
+      }
+    }
+    keyStats?.record(event);
+  }
+
+  protected watch(
+    release: ResourceRelease,
+    key: string,
+    lockingParams: Array<unknown>,
+    stack?: string,
+  ): ResourceRelease {
+    if (this.watchdog == null) return release;
+    return this.watchdog.watch(release, {
+      ...this.lockEventData(key, lockingParams),
+      stack: stack!,
+    });
+  }
+
+  /**
+   * The locking parameters are either the lock type or the weight.
+   */
+  protected lockEventData(
+    key: string,
+    lockingParams: Array<unknown>,
+  ): Omit<LockEvent, 'event'> {
+    const [param] = lockingParams;
+    return {
+      lock: LockBox.name,
+      key,
+      type:
+        typeof param === 'string' ? (param as LockEvent['type']) : undefined,
+      weight: typeof param === 'number' ? param : undefined,
+    };
+  }
 }
 
 export default LockBox;
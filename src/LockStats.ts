@@ -0,0 +1,100 @@
+import type {
+  LockEvent,
+  LockStatsData,
+  LockStatsPercentiles,
+} from './types.js';
+
+/**
+ * Contention statistics collected from the lifecycle events of a lock.
+ * The queue length is the number of acquisitions that have not settled.
+ * Percentiles are computed over the most recent `sampleSize` samples.
+ */
+class LockStats {
+  public readonly sampleSize: number;
+
+  protected acquisitions: number = 0;
+  protected timeouts: number = 0;
+  protected aborts: number = 0;
+  protected queueLength: number = 0;
+  protected peakQueueLength: number = 0;
+  protected waitTimes: Array<number> = [];
+  protected waitTimesCount: number = 0;
+  protected holdTimes: Array<number> = [];
+  protected holdTimesCount: number = 0;
+
+  public constructor(sampleSize: number = 1024) {
+    this.sampleSize = sampleSize;
+  }
+
+  public record(event: LockEvent): void {
+    switch (event.event) {
+      case 'queued':
+        this.queueLength++;
+        this.peakQueueLength = Math.max(this.peakQueueLength, this.queueLength);
+        break;
+      case 'acquired':
+        this.queueLength--;
+        this.acquisitions++;
+        this.waitTimes[this.waitTimesCount++ % this.sampleSize] =
+          event.waitDuration!;
+        break;
+      case 'aborted':
+        this.queueLength--;
+        this.aborts++;
+        break;
+      case 'timedout':
+        this.queueLength--;
+        this.timeouts++;
+        break;
+      case 'released':
+        this.holdTimes[this.holdTimesCount++ % this.sampleSize] =
+          event.holdDuration!;
+        break;
+    }
+  }
+
+  public stats(): LockStatsData {
+    return {
+      acquisitions: this.acquisitions,
+      timeouts: this.timeouts,
+      aborts: this.aborts,
+      queueLength: this.queueLength,
+      peakQueueLength: this.peakQueueLength,
+      waitTime: this.percentiles(this.waitTimes),
+      holdTime: this.percentiles(this.holdTimes),
+    };
+  }
+
+  /**
+   * Pending acquisitions are still counted in the queue length.
+   */
+  public reset(): void {
+    this.acquisitions = 0;
+    this.timeouts = 0;
+    this.aborts = 0;
+    this.peakQueueLength = this.queueLength;
+    this.waitTimes = [];
+    this.waitTimesCount = 0;
+    this.holdTimes = [];
+    this.holdTimesCount = 0;
+  }
+
+  /**
+   * Nearest rank percentiles, these are 0 if there are no samples.
+   */
+  protected percentiles(samples: Array<number>): LockStatsPercentiles {
+    const sorted = [...samples].sort((a, b) => a - b);
+    const percentile = (p: number) =>
+      sorted.length > 0
+        ? sorted[Math.max(Math.ceil(p * sorted.length) - 1, 0)]
+        : 0;
+    return {
+      p50: percentile(0.5),
+      p90: percentile(0.9),
+      p99: percentile(0.99),
+      max: percentile(1),
+    };
+  }
+}
+
+export default LockStats;
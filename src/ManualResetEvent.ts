@@ -0,0 +1,39 @@
+import type { ContextTimedInput } from './types.js';
+import { PromiseCancellable } from '@matrixai/async-cancellable';
+import * as utils from './utils.js';
+
+/**
+ * Event that wakes all waiters when it is set.
+ * The event stays set, so later waiters resolve immediately, until it is
+ * reset.
+ */
+class ManualResetEvent {
+  protected _isSet: boolean;
+  protected waiters: utils.Waiters = new utils.Waiters(ManualResetEvent.name);
+
+  public constructor(isSet: boolean = false) {
+    this._isSet = isSet;
+  }
+
+  public isSet(): boolean {
+    return this._isSet;
+  }
+
+  public set(): void {
+    this._isSet = true;
+    this.waiters.wakeAll();
+  }
+
+  public reset(): void {
+    this._isSet = false;
+  }
+
+  public wait(ctx?: Partial<ContextTimedInput>): PromiseCancellable<void> {
+    if (this._isSet) {
+      return PromiseCancellable.resolve();
+    }
+    return this.waiters.wait(ctx);
+  }
+}
+
+export default ManualResetEvent;
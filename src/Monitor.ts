@@ -1,22 +1,27 @@
 import type { ResourceRelease } from '@matrixai/resources';
-import type RWLockWriter from './RWLockWriter.js';
 import type RWLockReader from './RWLockReader.js';
 import type LockBox from './LockBox.js';
+import type WaitForGraph from './WaitForGraph.js';
 import type {
   ResourceAcquireCancellable,
   Lockable,
+  LockGuard,
   LockRequest,
   RWLockRequest,
-  ContextTimedInput,
+  RWLockUpgradable,
+  ContextLockInput,
 } from './types.js';
 import { PromiseCancellable } from '@matrixai/async-cancellable';
 import { withF, withG } from '@matrixai/resources';
+import RWLockWriter from './RWLockWriter.js';
+import * as utils from './utils.js';
 import * as errors from './errors.js';
 
 class Monitor<RWLock extends RWLockReader | RWLockWriter> implements Lockable {
   /**
    * Global lock box.
    * Must be shared between all monitors.
+   * The keys locked by monitors are watched by the watchdog of the lock box.
    */
   protected lockBox: LockBox<RWLock>;
 
@@ -26,10 +31,17 @@ class Monitor<RWLock extends RWLockReader | RWLockWriter> implements Lockable {
   protected lockConstructor: new () => RWLock;
 
   /**
-   * Global pending locks map.
+   * Global wait-for graph.
+   * Must be shared between all monitors sharing the lock box.
    * Only used for deadlock detection.
    */
-  protected locksPending?: Map<string, { count: number }>;
+  protected waitForGraph?: WaitForGraph;
+
+  /**
+   * Priority used by the `priority` deadlock victim policy.
+   * Monitors with lower priority are aborted first.
+   */
+  public readonly priority: number;
 
   /**
    * Monitor specific lock map.
@@ -42,17 +54,21 @@ class Monitor<RWLock extends RWLockReader | RWLockWriter> implements Lockable {
         type: 'read' | 'write';
         lock: RWLock;
         release: ResourceRelease;
+        upgradable?: readonly [ResourceRelease, RWLockUpgradable];
       }
   > = new Map();
 
   public constructor(
     lockBox: LockBox<RWLock>,
     lockConstructor: new () => RWLock,
-    locksPending?: Map<string, { count: number }>,
+    waitForGraph?: WaitForGraph,
+    priority: number = 0,
   ) {
     this.lockBox = lockBox;
     this.lockConstructor = lockConstructor;
-    this.locksPending = locksPending;
+    this.waitForGraph = waitForGraph;
+    this.priority = priority;
+    this.waitForGraph?.register(this);
   }
 
   get locks(): ReadonlyMap<
@@ -63,6 +79,7 @@ class Monitor<RWLock extends RWLockReader | RWLockWriter> implements Lockable {
         type: 'read' | 'write';
         lock: RWLock;
         release: ResourceRelease;
+        upgradable?: readonly [ResourceRelease, RWLockUpgradable];
       }
   > {
     return this._locks;
@@ -112,61 +129,70 @@ class Monitor<RWLock extends RWLockReader | RWLockWriter> implements Lockable {
    * Keys are locked in string sorted order.
    * Locking the same key is idempotent therefore lock re-entrancy is enabled.
    * Keys are automatically unlocked in reverse sorted order in case of rejection.
-   * There is no support for lock upgrading or downgrading.
+   * Keys held for `read` are upgraded to `write` without being unlocked.
+   * Keys upgraded by this monitor can be downgraded back to `read`.
+   * Keys locked for `write` directly cannot be downgraded, as their write lock
+   * is only held through the lock box and cannot be converted in place.
+   * Upgrades and downgrades persist until the key is unlocked.
    * Re-entrancy should work concurrently.
    */
   public lock(
     ...params:
       | [
           ...requests: Array<RWLockRequest | string>,
-          ctx: Partial<ContextTimedInput>,
+          ctx: Partial<ContextLockInput>,
         ]
       | [...requests: Array<RWLockRequest | string>]
-      | [ctx?: Partial<ContextTimedInput>]
+      | [ctx?: Partial<ContextLockInput>]
   ): ResourceAcquireCancellable<Monitor<RWLock>> {
     const ctx = (
       !Array.isArray(params[params.length - 1]) &&
       typeof params[params.length - 1] !== 'string'
         ? params.pop()
         : undefined
-    ) as Partial<ContextTimedInput> | undefined;
+    ) as Partial<ContextLockInput> | undefined;
     const requests = params as Array<RWLockRequest | string>;
     return () => {
       let currentP: PromiseCancellable<any>;
       const f = async () => {
         const requests_: Array<LockRequest<RWLock>> = [];
+        const upgrades: Array<[key: string, ctx?: Partial<ContextLockInput>]> =
+          [];
+        const downgrades: Array<string> = [];
         for (const request of requests) {
+          let key: string;
+          let lockType: 'read' | 'write';
+          let ctx_: Partial<ContextLockInput> | undefined;
           if (Array.isArray(request)) {
-            const key = request[0];
+            key = request[0];
             // Default the lock type to `write`
-            const lockType =
-              typeof request[1] === 'string' ? request[1] : 'write';
+            lockType = typeof request[1] === 'string' ? request[1] : 'write';
             // Each lock request can have its own ctx, if it is `undefined`,
             // it defaults to the method `ctx`.
-            const ctx_ =
+            ctx_ =
               (typeof request[1] === 'string' ? request[2] : request[1]) ?? ctx;
-            const lock = this._locks.get(key);
-            if (lock === undefined) {
-              requests_.push([
-                key,
-                this.lockConstructor,
-                lockType,
-                ctx_,
-              ] as any);
-            } else if (lock.type !== lockType) {
+          } else {
+            key = request;
+            // Default the lock type to `write` and use the method `ctx`
+            lockType = 'write';
+            ctx_ = ctx;
+          }
+          const lock = this._locks.get(key);
+          if (lock === undefined) {
+            requests_.push([key, this.lockConstructor, lockType, ctx_] as any);
+          } else if (lock.type !== lockType) {
+            if (lock.status === 'acquiring') {
               throw new errors.ErrorAsyncLocksMonitorLockType(
-                `Cannot change lock type from ${lock.type} to ${lockType}`,
+                `Cannot change lock type from ${lock.type} to ${lockType} while acquiring`,
               );
             }
-          } else {
-            const key = request;
-            const lock = this._locks.get(key);
-            if (lock === undefined) {
-              // Default the lock type to `write` and use the method `ctx`
-              requests_.push([key, this.lockConstructor, 'write', ctx] as any);
-            } else if (lock.type !== 'write') {
+            if (lockType === 'write') {
+              upgrades.push([key, ctx_]);
+            } else if (lock.upgradable != null) {
+              downgrades.push(key);
+            } else {
               throw new errors.ErrorAsyncLocksMonitorLockType(
-                `Cannot change lock type from ${lock.type} to write`,
+                `Cannot downgrade lock type from ${lock.type} to ${lockType} without upgrading`,
               );
             }
           }
@@ -174,40 +200,36 @@ class Monitor<RWLock extends RWLockReader | RWLockWriter> implements Lockable {
         // Duplicates are eliminated, and the returned acquisitions are sorted
         const lockAcquires = this.lockBox.lockMulti(...requests_);
         const lockedKeys: Array<string> = [];
+        const upgradedKeys: Array<string> = [];
         try {
           for (const [key, lockAcquire, ...lockingParams] of lockAcquires) {
             const lockType = lockingParams[0] as 'read' | 'write';
             const lockAcquireP = lockAcquire();
             currentP = lockAcquireP;
-            let lockPendingKey: string | null = null;
-            let lockPending: { count: number } | null = null;
-            if (this.locksPending != null) {
-              // If we cancelling due to deadlock, we will not set the key into
-              // the global pending lock map.
-              if (this.checkForDeadlock(key, lockType)) {
-                lockAcquireP.cancel(
-                  new errors.ErrorAsyncLocksMonitorDeadlock(),
-                );
-              } else {
-                [lockPendingKey, lockPending] = this.setPendingLock(
-                  key,
-                  lockType,
-                );
-              }
-            }
-            let lockRelease: ResourceRelease, lock: RWLock | undefined;
             this._locks.set(key, { status: 'acquiring', type: lockType });
+            // If this wait completes a deadlock cycle, the victim of the cycle
+            // is aborted, which may be this acquisition
+            const wait = this.waitForGraph?.wait(this, key, lockType, {
+              priority: this.priority,
+              writerPreferring: this.writerPreferring,
+              abort: (e) => {
+                lockAcquireP.cancel(e);
+              },
+            });
+            let lockRelease: ResourceRelease, lock: RWLock | undefined;
             try {
               [lockRelease, lock] = await lockAcquireP;
             } catch (e) {
               // Remove the local acquisition
               this._locks.delete(key);
+              if (e instanceof errors.ErrorAsyncLocksTimeout) {
+                e.data.key ??= key;
+              }
               throw e;
             } finally {
-              if (lockPendingKey !== null && lockPending !== null) {
-                this.unsetPendingLock(lockPendingKey, lockPending);
-              }
+              if (wait != null) this.waitForGraph!.unwait(wait);
             }
+            this.waitForGraph?.hold(this, key, lockType);
             // The `Map` will maintain insertion order
             // these must be unlocked in reverse order
             // when the transaction is destroyed
@@ -219,12 +241,34 @@ class Monitor<RWLock extends RWLockReader | RWLockWriter> implements Lockable {
             });
             lockedKeys.push(key);
           }
+          // Upgrades are performed in sorted order after the acquisitions
+          upgrades.sort(([key1], [key2]) => {
+            // Deterministic string comparison according to 16-bit code units
+            if (key1 < key2) return -1;
+            if (key1 > key2) return 1;
+            return 0;
+          });
+          for (const [key, ctx_] of upgrades) {
+            // Duplicate upgrades are idempotent
+            if (this._locks.get(key)!.type === 'write') continue;
+            await this.upgrade(key, ctx_, (p) => {
+              currentP = p;
+            });
+            upgradedKeys.push(key);
+          }
         } catch (e) {
-          // Reverse and unlock
+          // Downgrade the upgraded keys and then reverse and unlock
+          upgradedKeys.reverse();
+          for (const key of upgradedKeys) {
+            await this.downgrade(key);
+          }
           lockedKeys.reverse();
           await this.unlock(...lockedKeys);
           throw e;
         }
+        for (const key of downgrades) {
+          await this.downgrade(key);
+        }
         let released = false;
         return [
           async () => {
@@ -249,6 +293,83 @@ class Monitor<RWLock extends RWLockReader | RWLockWriter> implements Lockable {
     };
   }
 
+  /**
+   * Locks and resolves to a guard that releases the lock when disposed.
+   */
+  public acquire(
+    ...params: Parameters<Monitor<RWLock>['lock']>
+  ): PromiseCancellable<LockGuard<Monitor<RWLock>>> {
+    return utils.lockGuard(this.lock(...params)(), this);
+  }
+
+  /**
+   * Attempt to lock a sequence of lock requests without queueing.
+   * This defaults to using `write` locks the type is not specified.
+   * Keys are locked in string sorted order.
+   * Keys already locked by this monitor with the same type are skipped.
+   * Changing the lock type of keys already locked by this monitor is not
+   * supported.
+   * If any key is not immediately available, the keys acquired so far are
+   * unlocked in reverse order and `undefined` is returned.
+   */
+  public tryLock(
+    ...requests: Array<[key: string, type?: 'read' | 'write'] | string>
+  ): ResourceRelease | undefined {
+    const requests_: Array<[key: string, type: 'read' | 'write']> = [];
+    for (const request of requests) {
+      const [key, lockType] = Array.isArray(request)
+        ? [request[0], request[1] ?? 'write']
+        : [request, 'write' as const];
+      const lock = this._locks.get(key);
+      if (lock === undefined) {
+        requests_.push([key, lockType]);
+      } else if (lock.type !== lockType) {
+        throw new errors.ErrorAsyncLocksMonitorLockType(
+          `Cannot change lock type from ${lock.type} to ${lockType}`,
+        );
+      }
+    }
+    // Sort to ensure lock hierarchy
+    requests_.sort(([key1], [key2]) => {
+      // Deterministic string comparison according to 16-bit code units
+      if (key1 < key2) return -1;
+      if (key1 > key2) return 1;
+      return 0;
+    });
+    const lockedKeys: Array<string> = [];
+    for (const [key, lockType] of requests_) {
+      // Avoid duplicate locking
+      if (this._locks.has(key)) continue;
+      const lockRelease = this.lockBox.tryLock([
+        key,
+        this.lockConstructor,
+        lockType,
+      ] as any);
+      if (lockRelease == null) {
+        // Reverse and unlock
+        lockedKeys.reverse();
+        void this.unlock(...lockedKeys);
+        return;
+      }
+      this._locks.set(key, {
+        status: 'acquired',
+        lock: this.lockBox.locks.get(key)!,
+        type: lockType,
+        release: lockRelease,
+      });
+      this.waitForGraph?.hold(this, key, lockType);
+      lockedKeys.push(key);
+    }
+    let released = false;
+    return async () => {
+      if (released) return;
+      released = true;
+      // Release all locks in reverse order
+      lockedKeys.reverse();
+      await this.unlock(...lockedKeys);
+    };
+  }
+
   /**
    * Unlock a sequence of lock keys.
    * Unlocking will be done in the order of the keys.
@@ -262,6 +383,8 @@ class Monitor<RWLock extends RWLockReader | RWLockWriter> implements Lockable {
       if (lock.status === 'acquired') {
         // Only unlock acquired keys
         this._locks.delete(key);
+        this.waitForGraph?.unhold(this, key);
+        await lock.upgradable?.[0]();
         await lock.release();
       }
     }
@@ -278,9 +401,9 @@ class Monitor<RWLock extends RWLockReader | RWLockWriter> implements Lockable {
    */
   public waitForUnlock(
     ...params:
-      | [key?: string, ctx?: Partial<ContextTimedInput>]
+      | [key?: string, ctx?: Partial<ContextLockInput>]
       | [key?: string]
-      | [ctx?: Partial<ContextTimedInput>]
+      | [ctx?: Partial<ContextLockInput>]
       | []
   ): PromiseCancellable<void> {
     const key =
@@ -334,10 +457,10 @@ class Monitor<RWLock extends RWLockReader | RWLockWriter> implements Lockable {
       ...(
         | [
             ...requests: Array<RWLockRequest | string>,
-            ctx: Partial<ContextTimedInput>,
+            ctx: Partial<ContextLockInput>,
           ]
         | [...requests: Array<RWLockRequest | string>]
-        | [ctx?: Partial<ContextTimedInput>]
+        | [ctx?: Partial<ContextLockInput>]
       ),
       (monitor: Monitor<RWLock>) => Promise<T>,
     ]
@@ -351,10 +474,10 @@ class Monitor<RWLock extends RWLockReader | RWLockWriter> implements Lockable {
       ...(
         | [
             ...requests: Array<RWLockRequest | string>,
-            ctx: Partial<ContextTimedInput>,
+            ctx: Partial<ContextLockInput>,
           ]
         | [...requests: Array<RWLockRequest | string>]
-        | [ctx?: Partial<ContextTimedInput>]
+        | [ctx?: Partial<ContextLockInput>]
       ),
       (monitor: Monitor<RWLock>) => AsyncGenerator<T, TReturn, TNext>,
     ]
@@ -365,66 +488,87 @@ class Monitor<RWLock extends RWLockReader | RWLockWriter> implements Lockable {
     return withG([this.lock(...(params as any))], ([monitor]) => g(monitor));
   }
 
-  protected setPendingLock(
+  /**
+   * Upgrades a key held for `read` to `write`.
+   * The held `read` lock is converted in place to the upgradable lock,
+   * therefore the key is never unlocked during the upgrade, and the upgrade
+   * does not queue behind writers that are waiting for this `read` lock.
+   * Upgrading keys are registered as waits in the wait-for graph.
+   */
+  protected async upgrade(
     key: string,
-    lockType: 'read' | 'write',
-  ): [string, { count: number }] {
-    if (this.locksPending == null) {
-      throw ReferenceError('Cannot set pending lock without pending locks map');
-    }
-    const lockPendingKey = JSON.stringify([key, lockType]);
-    let lockPending = this.locksPending.get(lockPendingKey);
-    if (lockPending == null) {
-      lockPending = { count: 1 };
-      this.locksPending.set(lockPendingKey, lockPending);
-    } else {
-      lockPending.count += 1;
+    ctx: Partial<ContextLockInput> | undefined,
+    setCurrentP: (p: PromiseCancellable<any>) => void,
+  ): Promise<void> {
+    const lock = this._locks.get(key);
+    if (lock === undefined || lock.status === 'acquiring') return;
+    let currentP: PromiseCancellable<any> | undefined;
+    let abortReason: Error | undefined;
+    // The abortion may arrive between the upgrade phases
+    const wait = this.waitForGraph?.wait(this, key, 'upgrade', {
+      priority: this.priority,
+      writerPreferring: this.writerPreferring,
+      abort: (e) => {
+        abortReason = e;
+        currentP?.cancel(e);
+      },
+    });
+    let upgradable: readonly [ResourceRelease, RWLockUpgradable] | undefined;
+    try {
+      if (lock.upgradable == null) {
+        if (abortReason != null) throw abortReason;
+        const lockAcquire = lock.lock.upgradableFromRead(ctx);
+        currentP = lockAcquire();
+        setCurrentP(currentP);
+        const [upgradableRelease, handle] = await currentP;
+        upgradable = [upgradableRelease, handle!];
+      }
+      if (abortReason != null) throw abortReason;
+      currentP = (lock.upgradable ?? upgradable!)[1].upgrade(ctx);
+      setCurrentP(currentP);
+      await currentP;
+      lock.type = 'write';
+      lock.upgradable ??= upgradable;
+    } catch (e) {
+      // The conversion made by this upgrade is reverted
+      await upgradable?.[0]();
+      if (e instanceof errors.ErrorAsyncLocksTimeout) {
+        e.data.key ??= key;
+      }
+      throw e;
+    } finally {
+      if (wait != null) this.waitForGraph!.unwait(wait);
     }
-    return [lockPendingKey, lockPending];
+    this.waitForGraph?.hold(this, key, 'write');
   }
 
-  protected unsetPendingLock(
-    lockPendingKey: string,
-    lockPending: { count: number },
-  ): void {
-    if (this.locksPending == null) {
-      throw ReferenceError(
-        'Cannot unset pending lock without pending locks map',
-      );
-    }
-    lockPending.count -= 1;
-    if (lockPending.count === 0) {
-      this.locksPending.delete(lockPendingKey);
+  /**
+   * Downgrades a key upgraded to `write` back to `read`.
+   * The key remains held with the upgradable lock until it is unlocked.
+   */
+  protected async downgrade(key: string): Promise<void> {
+    const lock = this._locks.get(key);
+    if (
+      lock === undefined ||
+      lock.status === 'acquiring' ||
+      lock.upgradable == null ||
+      lock.type === 'read'
+    ) {
+      return;
     }
+    await lock.upgradable[1].downgrade();
+    lock.type = 'read';
+    this.waitForGraph?.hold(this, key, 'read');
   }
 
-  protected checkForDeadlock(key: string, lockType: 'read' | 'write'): boolean {
-    if (this.locksPending == null) {
-      throw ReferenceError(
-        'Cannot check for deadlock without pending locks map',
-      );
-    }
-    const lockObj = this.lockBox.locks.get(key);
-    if (lockObj != null) {
-      if (
-        (lockType === 'read' && lockObj.isLocked('write')) ||
-        (lockType === 'write' && lockObj.isLocked())
-      ) {
-        // Check if other monitor's pending lock keys conflict with
-        // this monitor's existing held locks.
-        for (const lockPendingKey of this.locksPending.keys()) {
-          const [lockKeyPending, lockTypePending] = JSON.parse(lockPendingKey);
-          const lock = this._locks.get(lockKeyPending);
-          if (
-            lock != null &&
-            (lock.type === 'write' || lockTypePending === 'write')
-          ) {
-            return true;
-          }
-        }
-      }
-    }
-    return false;
+  /**
+   * Queued readers are blocked by queued writers on writer preferring locks.
+   */
+  protected get writerPreferring(): boolean {
+    return (
+      (this.lockConstructor as unknown) === RWLockWriter ||
+      this.lockConstructor.prototype instanceof RWLockWriter
+    );
   }
 }
 
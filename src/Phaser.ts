@@ -0,0 +1,115 @@
+import type { ContextTimedInput } from './types.js';
+import { PromiseCancellable } from '@matrixai/async-cancellable';
+import * as utils from './utils.js';
+import * as errors from './errors.js';
+
+/**
+ * Reusable barrier for a dynamic number of parties.
+ * Parties register and deregister at any time. The phase advances when all
+ * registered parties have arrived, and then the arrivals reset for the next
+ * phase. Parties that time out or are aborted while awaiting the advance
+ * are still counted as arrived.
+ */
+class Phaser {
+  protected _phase: number = 0;
+  protected _parties: number;
+  protected arrived: number = 0;
+  protected waiters: utils.Waiters<number> = new utils.Waiters(Phaser.name);
+
+  public constructor(parties: number = 0) {
+    if (parties < 0) {
+      throw new RangeError('Phaser must be constructed with `parties` >= 0');
+    }
+    this._parties = parties;
+  }
+
+  public get phase(): number {
+    return this._phase;
+  }
+
+  public get registeredParties(): number {
+    return this._parties;
+  }
+
+  public get arrivedParties(): number {
+    return this.arrived;
+  }
+
+  public get unarrivedParties(): number {
+    return this._parties - this.arrived;
+  }
+
+  /**
+   * Registers a new party for the current phase.
+   * Returns the current phase.
+   */
+  public register(): number {
+    this._parties++;
+    return this._phase;
+  }
+
+  /**
+   * Arrives without waiting for the other parties.
+   * Returns the phase that was arrived at.
+   */
+  public arrive(): number {
+    const phase = this._phase;
+    this.checkArrival();
+    this.arrived++;
+    this.advanceIfArrived();
+    return phase;
+  }
+
+  /**
+   * Arrives and deregisters without waiting for the other parties.
+   * Returns the phase that was arrived at.
+   */
+  public arriveAndDeregister(): number {
+    const phase = this._phase;
+    this.checkArrival();
+    this._parties--;
+    this.advanceIfArrived();
+    return phase;
+  }
+
+  /**
+   * Arrives and waits for the other parties.
+   * Resolves to the next phase.
+   */
+  public arriveAndAwaitAdvance(
+    ctx?: Partial<ContextTimedInput>,
+  ): PromiseCancellable<number> {
+    return this.awaitAdvance(this.arrive(), ctx);
+  }
+
+  /**
+   * Waits for the `phase` to advance.
+   * Resolves to the next phase, this resolves immediately if the current
+   * phase is not `phase`.
+   */
+  public awaitAdvance(
+    phase: number,
+    ctx?: Partial<ContextTimedInput>,
+  ): PromiseCancellable<number> {
+    if (phase !== this._phase) {
+      return PromiseCancellable.resolve(this._phase);
+    }
+    return this.waiters.wait(ctx);
+  }
+
+  protected checkArrival(): void {
+    if (this.arrived >= this._parties) {
+      throw new errors.ErrorAsyncLocksPhaserParties(
+        `Phaser has ${this._parties} parties which have all arrived at phase ${this._phase}`,
+      );
+    }
+  }
+
+  protected advanceIfArrived(): void {
+    if (this._parties > 0 && this.arrived < this._parties) return;
+    this.arrived = 0;
+    this.waiters.wakeAll(++this._phase);
+  }
+}
+
+export default Phaser;
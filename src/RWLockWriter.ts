@@ -1,22 +1,41 @@
 import type { ResourceRelease } from '@matrixai/resources';
 import type {
   ResourceAcquireCancellable,
+  ResourceAcquireFenced,
+  ResourceReleaseFenced,
+  RWLockUpgradable,
   Lockable,
+  LockGuard,
+  LockInstrument,
+  LockStatsData,
+  TimeoutData,
   ContextTimed,
-  ContextTimedInput,
+  ContextLockInput,
 } from './types.js';
+import type Watchdog from './Watchdog.js';
 import { withF, withG } from '@matrixai/resources';
 import { PromiseCancellable } from '@matrixai/async-cancellable';
 import Lock from './Lock.js';
+import LockStats from './LockStats.js';
 import * as utils from './utils.js';
 import * as errors from './errors.js';
 
+/**
+ * Pending acquisition, `acquired` is set when it is acquired
+ */
+type Waiter = {
+  type: 'read' | 'write' | 'upgradable';
+  queued: number;
+  acquired?: number;
+  stack?: string;
+};
+
 /**
  * Write-preferring read write lock
  */
 class RWLockWriter implements Lockable {
-  protected readersLock: Lock = new Lock();
-  protected writersLock: Lock = new Lock();
+  protected readersLock: Lock;
+  protected writersLock: Lock;
   protected readersRelease: ResourceRelease;
   protected readerCountBlocked: number = 0;
   protected acquireReadersLockP: PromiseCancellable<
@@ -24,6 +43,51 @@ class RWLockWriter implements Lockable {
   >;
   protected _readerCount: number = 0;
   protected _writerCount: number = 0;
+  protected upgradableLock: Lock;
+  protected upgradeLock: Lock = new Lock();
+  protected upgradeRelease?: ResourceRelease;
+  protected upgradeStatus?: 'read' | 'upgrading' | 'write';
+  protected upgradeP?: PromiseCancellable<void>;
+  protected upgradeDrain?: () => void;
+  protected holderCount: number = 0;
+  protected tokenCounter: number = 0;
+  protected waiters: Set<Waiter> = new Set();
+  protected instrument: LockInstrument;
+  protected watchdog?: Watchdog;
+  protected lockStats: LockStats = new LockStats();
+
+  /**
+   * Acquisitions that cannot be granted immediately are rejected with
+   * `ErrorAsyncLocksQueueFull` while this many acquisitions are pending.
+   */
+  public readonly maxQueueLength: number;
+
+  /**
+   * See `Semaphore` for the `aging` of waiters with explicit priorities.
+   * The lifecycle events of the lock are emitted to `instrument`.
+   * Holds are watched by the `watchdog` for leaks and long holds.
+   */
+  public constructor({
+    aging,
+    maxQueueLength = Infinity,
+    instrument,
+    watchdog,
+  }: {
+    aging?: number;
+    maxQueueLength?: number;
+    instrument?: LockInstrument;
+    watchdog?: Watchdog;
+  } = {}) {
+    this.readersLock = new Lock({ aging });
+    this.writersLock = new Lock({ aging });
+    this.upgradableLock = new Lock({ aging });
+    this.maxQueueLength = maxQueueLength;
+    this.watchdog = watchdog;
+    this.instrument = (event) => {
+      this.lockStats.record(event);
+      instrument?.(event);
+    };
+  }
 
   public get count(): number {
     return this.readerCount + this.writerCount;
@@ -40,24 +104,44 @@ class RWLockWriter implements Lockable {
   /**
    * Check if locked
    * If passed `type`, it will also check that the active lock is of that type
+   * An upgraded lock is considered to be locked for `write`
    */
-  public isLocked(type?: 'read' | 'write'): boolean {
+  public isLocked(type?: 'read' | 'write' | 'upgradable'): boolean {
     if (type === 'read') {
       return this._writerCount === 0 && this.readersLock.isLocked();
     } else if (type === 'write') {
-      return this.writersLock.isLocked();
+      return this.writersLock.isLocked() || this.upgradeLock.isLocked();
+    } else if (type === 'upgradable') {
+      return this.upgradableLock.isLocked();
     } else {
       return this.readersLock.isLocked() || this.writersLock.isLocked();
     }
   }
 
+  /**
+   * Upgradable locks resolve to a handle of the hold, see `upgradable`.
+   */
+  public lock(
+    type: 'upgradable',
+    ctx?: Partial<ContextLockInput>,
+  ): ResourceAcquireCancellable<RWLockUpgradable<RWLockWriter>>;
   public lock(
     ...params:
-      | [type?: 'read' | 'write', ctx?: Partial<ContextTimedInput>]
+      | [type?: 'read' | 'write', ctx?: Partial<ContextLockInput>]
       | [type?: 'read' | 'write']
-      | [ctx?: Partial<ContextTimedInput>]
+      | [ctx?: Partial<ContextLockInput>]
       | []
-  ): ResourceAcquireCancellable<RWLockWriter> {
+  ): ResourceAcquireCancellable<RWLockWriter>;
+  public lock(
+    ...params:
+      | [
+          type?: 'read' | 'write' | 'upgradable',
+          ctx?: Partial<ContextLockInput>,
+        ]
+      | [type?: 'read' | 'write' | 'upgradable']
+      | [ctx?: Partial<ContextLockInput>]
+      | []
+  ): ResourceAcquireCancellable<RWLockWriter | RWLockUpgradable<RWLockWriter>> {
     const type =
       (params.length === 2
         ? params[0]
@@ -75,71 +159,66 @@ class RWLockWriter implements Lockable {
         return this.read(ctx);
       case 'write':
         return this.write(ctx);
+      case 'upgradable':
+        return this.upgradable(ctx);
     }
   }
 
   public read(
-    ctx?: Partial<ContextTimedInput>,
+    ctx?: Partial<ContextLockInput>,
   ): ResourceAcquireCancellable<RWLockWriter> {
     ctx = ctx != null ? { ...ctx } : {};
     return () => {
-      return utils.setupTimedCancellable(
-        async (ctx: ContextTimed) => {
-          if (this._writerCount > 0) {
-            ++this.readerCountBlocked;
-            const waitWritersLockP = this.writersLock.waitForUnlock(ctx);
-            try {
-              await waitWritersLockP;
-            } finally {
-              --this.readerCountBlocked;
-            }
-          }
-          const readerCount = ++this._readerCount;
-          // The first reader locks
-          if (readerCount === 1) {
-            const acquireReadersLock = this.readersLock.lock(ctx);
-            this.acquireReadersLockP = acquireReadersLock();
-            try {
-              [this.readersRelease] = await this.acquireReadersLockP;
-            } catch (e) {
-              --this._readerCount;
-              throw e;
-            }
-          } else {
-            // Without this, the second or later reader will always lock faster
-            // than the first reader. This forces the subsequent readers to always
-            // wait for the first reader to settle, while discarding any errors.
-            await this.acquireReadersLockP.catch(() => {});
-          }
-          let released = false;
-          return [
-            async () => {
-              if (released) return;
-              released = true;
-              const readerCount = --this._readerCount;
-              // The last reader unlocks
-              if (readerCount === 0) {
-                await this.readersRelease();
-              }
-            },
-            this,
-          ] as const;
-        },
+      if (this.waiters.size >= this.maxQueueLength) {
+        return this.acquireQueueFull('read');
+      }
+      const waiter = this.addWaiter('read');
+      const acquireP = utils.setupTimedCancellable(
+        (ctx: ContextTimed) =>
+          this.acquireRead(ctx, (readRelease) => {
+            ++this.holderCount;
+            this.emitAcquired(waiter);
+            let released = false;
+            return [
+              this.watch(
+                async () => {
+                  if (released) return;
+                  released = true;
+                  --this.holderCount;
+                  this.emitReleased(waiter);
+                  await readRelease();
+                },
+                'read',
+                waiter.stack,
+              ),
+              this,
+            ] as const;
+          }),
         true,
         Infinity,
         errors.ErrorAsyncLocksTimeout,
         ctx!,
         [],
+        () => this.timeoutData('read', waiter),
       );
+      return this.settleWaiter(waiter, acquireP);
     };
   }
 
+  /**
+   * Write lock.
+   * The release carries the fencing token of the acquisition.
+   */
   public write(
-    ctx?: Partial<ContextTimedInput>,
-  ): ResourceAcquireCancellable<RWLockWriter> {
+    ctx?: Partial<ContextLockInput>,
+  ): ResourceAcquireFenced<RWLockWriter> {
     ctx = ctx != null ? { ...ctx } : {};
     return () => {
-      return utils.setupTimedCancellable(
+      if (this.waiters.size >= this.maxQueueLength) {
+        return this.acquireQueueFull('write');
+      }
+      const waiter = this.addWaiter('write');
+      const acquireP = utils.setupTimedCancellable(
         async (ctx: ContextTimed) => {
           ++this._writerCount;
           const acquireWritersLock = this.writersLock.lock(ctx);
@@ -160,15 +239,26 @@ class RWLockWriter implements Lockable {
             --this._writerCount;
             throw e;
           }
+          ++this.holderCount;
+          this.emitAcquired(waiter);
           let released = false;
           return [
-            async () => {
-              if (released) return;
-              released = true;
-              await this.readersRelease();
-              await writersRelease();
-              --this._writerCount;
-            },
+            utils.fence(
+              this.watch(
+                async () => {
+                  if (released) return;
+                  released = true;
+                  --this.holderCount;
+                  this.emitReleased(waiter);
+                  await this.readersRelease();
+                  await writersRelease();
+                  --this._writerCount;
+                },
+                'write',
+                waiter.stack,
+              ),
+              ++this.tokenCounter,
+            ),
             this,
           ] as const;
         },
@@ -177,12 +267,233 @@ class RWLockWriter implements Lockable {
         errors.ErrorAsyncLocksTimeout,
         ctx!,
         [],
+        () => this.timeoutData('write', waiter),
       );
+      return this.settleWaiter(waiter, acquireP);
     };
   }
 
+  /**
+   * Upgradable read lock.
+   * This is shared with other readers, but excludes other upgradable locks.
+   * This resolves to a handle whose `upgrade` and `downgrade` convert the
+   * hold to a write lock and back without releasing it.
+   */
+  public upgradable(
+    ctx?: Partial<ContextLockInput>,
+  ): ResourceAcquireCancellable<RWLockUpgradable<RWLockWriter>> {
+    ctx = ctx != null ? { ...ctx } : {};
+    return () => {
+      if (this.waiters.size >= this.maxQueueLength) {
+        return this.acquireQueueFull('upgradable');
+      }
+      const waiter = this.addWaiter('upgradable');
+      const acquireP = utils.setupTimedCancellable(
+        async (ctx: ContextTimed) => {
+          const acquireUpgradableLock = this.upgradableLock.lock(ctx);
+          const [upgradableRelease] = await acquireUpgradableLock();
+          let readRelease: ResourceRelease;
+          try {
+            readRelease = await this.acquireRead(ctx, (release) => release);
+          } catch (e) {
+            await upgradableRelease();
+            throw e;
+          }
+          this.upgradeStatus = 'read';
+          ++this.holderCount;
+          this.emitAcquired(waiter);
+          let released = false;
+          return this.holdUpgradable(
+            this.watch(
+              async () => {
+                if (released) return;
+                released = true;
+                --this.holderCount;
+                this.emitReleased(waiter);
+                await this.downgrade();
+                delete this.upgradeStatus;
+                await readRelease();
+                await upgradableRelease();
+              },
+              'upgradable',
+              waiter.stack,
+            ),
+          );
+        },
+        true,
+        Infinity,
+        errors.ErrorAsyncLocksTimeout,
+        ctx!,
+        [],
+        () => this.timeoutData('upgradable', waiter),
+      );
+      return this.settleWaiter(waiter, acquireP);
+    };
+  }
+
+  /**
+   * Converts a read lock held by the caller to an upgradable lock in place.
+   * Unlike `upgradable`, this does not acquire another read lock, so it only
+   * waits for the other upgradable lock, and never for pending writers.
+   * The read lock must stay held until the upgradable lock is released,
+   * releasing the upgradable lock leaves the read lock held.
+   * This is not bounded by `maxQueueLength`, as the read lock is already held.
+   */
+  public upgradableFromRead(
+    ctx?: Partial<ContextLockInput>,
+  ): ResourceAcquireCancellable<RWLockUpgradable<RWLockWriter>> {
+    ctx = ctx != null ? { ...ctx } : {};
+    return () => {
+      if (this._readerCount === 0) {
+        return PromiseCancellable.reject(
+          new errors.ErrorAsyncLocksRWLockUpgrade(
+            'Cannot convert to an upgradable lock without holding a read lock',
+          ),
+        );
+      }
+      const waiter = this.addWaiter('upgradable');
+      const acquireP = utils.setupTimedCancellable(
+        async (ctx: ContextTimed) => {
+          const acquireUpgradableLock = this.upgradableLock.lock(ctx);
+          const [upgradableRelease] = await acquireUpgradableLock();
+          this.upgradeStatus = 'read';
+          this.emitAcquired(waiter);
+          let released = false;
+          return this.holdUpgradable(
+            this.watch(
+              async () => {
+                if (released) return;
+                released = true;
+                this.emitReleased(waiter);
+                await this.downgrade();
+                delete this.upgradeStatus;
+                await upgradableRelease();
+              },
+              'upgradable',
+              waiter.stack,
+            ),
+          );
+        },
+        true,
+        Infinity,
+        errors.ErrorAsyncLocksTimeout,
+        ctx!,
+        [],
+        () => this.timeoutData('upgradable', waiter),
+      );
+      return this.settleWaiter(waiter, acquireP);
+    };
+  }
+
+  /**
+   * Contention statistics since construction or the last `resetStats`.
+   */
+  public stats(): LockStatsData {
+    return this.lockStats.stats();
+  }
+
+  public resetStats(): void {
+    this.lockStats.reset();
+  }
+
+  /**
+   * Locks and resolves to a guard that releases the lock when disposed.
+   */
+  public acquire(
+    ...params: Parameters<RWLockWriter['lock']>
+  ): PromiseCancellable<LockGuard<RWLockWriter>> {
+    return utils.lockGuard(this.lock(...params)(), this);
+  }
+
+  /**
+   * Attempt to lock without queueing.
+   * This defaults to `write` if the type is not specified.
+   * Returns `undefined` if the lock is not immediately available.
+   */
+  public tryLock(
+    type: 'read' | 'write' | 'upgradable' = 'write',
+  ): ResourceRelease | undefined {
+    switch (type) {
+      case 'read':
+        return this.tryRead();
+      case 'write':
+        return this.tryWrite();
+      case 'upgradable':
+        return this.tryUpgradable()?.[0];
+    }
+  }
+
+  public tryRead(): ResourceRelease | undefined {
+    const readRelease = this.tryAcquireRead();
+    if (readRelease == null) return;
+    ++this.holderCount;
+    const waiter = this.emitTried('read');
+    let released = false;
+    return this.watch(async () => {
+      if (released) return;
+      released = true;
+      --this.holderCount;
+      this.emitReleased(waiter);
+      await readRelease();
+    }, 'read');
+  }
+
+  public tryUpgradable():
+    | readonly [ResourceRelease, RWLockUpgradable<RWLockWriter>]
+    | undefined {
+    const upgradableRelease = this.upgradableLock.tryLock();
+    if (upgradableRelease == null) return;
+    const readRelease = this.tryAcquireRead();
+    if (readRelease == null) {
+      void upgradableRelease();
+      return;
+    }
+    this.upgradeStatus = 'read';
+    ++this.holderCount;
+    const waiter = this.emitTried('upgradable');
+    let released = false;
+    return this.holdUpgradable(
+      this.watch(async () => {
+        if (released) return;
+        released = true;
+        --this.holderCount;
+        this.emitReleased(waiter);
+        await this.downgrade();
+        delete this.upgradeStatus;
+        await readRelease();
+        await upgradableRelease();
+      }, 'upgradable'),
+    );
+  }
+
+  public tryWrite(): ResourceReleaseFenced | undefined {
+    if (this._writerCount > 0 || this._readerCount > 0) return;
+    const writersRelease = this.writersLock.tryLock();
+    if (writersRelease == null) return;
+    const readersRelease = this.readersLock.tryLock();
+    if (readersRelease == null) {
+      void writersRelease();
+      return;
+    }
+    this.readersRelease = readersRelease;
+    ++this._writerCount;
+    ++this.holderCount;
+    const waiter = this.emitTried('write');
+    let released = false;
+    const writeRelease = this.watch(async () => {
+      if (released) return;
+      released = true;
+      --this.holderCount;
+      this.emitReleased(waiter);
+      await this.readersRelease();
+      await writersRelease();
+      --this._writerCount;
+    }, 'write');
+    return utils.fence(writeRelease, ++this.tokenCounter);
+  }
+
   public waitForUnlock(
-    ctx?: Partial<ContextTimedInput>,
+    ctx?: Partial<ContextLockInput>,
   ): PromiseCancellable<void> {
     const waitReadersLockP = this.readersLock.waitForUnlock(ctx);
     const waitWritersLockP = this.writersLock.waitForUnlock(ctx);
@@ -202,23 +513,49 @@ class RWLockWriter implements Lockable {
     );
   }
 
+  public withF<T>(
+    ...params:
+      | [
+          type: 'upgradable',
+          ctx: Partial<ContextLockInput> | undefined,
+          f: (upgradable: RWLockUpgradable<RWLockWriter>) => Promise<T>,
+        ]
+      | [
+          type: 'upgradable',
+          f: (upgradable: RWLockUpgradable<RWLockWriter>) => Promise<T>,
+        ]
+  ): Promise<T>;
   public withF<T>(
     ...params: [
       ...(
-        | [type?: 'read' | 'write', ctx?: Partial<ContextTimedInput>]
+        | [type?: 'read' | 'write', ctx?: Partial<ContextLockInput>]
         | [type?: 'read' | 'write']
-        | [ctx?: Partial<ContextTimedInput>]
+        | [ctx?: Partial<ContextLockInput>]
         | []
       ),
       (lock: RWLockWriter) => Promise<T>,
     ]
+  ): Promise<T>;
+  public withF<T>(
+    ...params: [
+      ...(
+        | [
+            type?: 'read' | 'write' | 'upgradable',
+            ctx?: Partial<ContextLockInput>,
+          ]
+        | [type?: 'read' | 'write' | 'upgradable']
+        | [ctx?: Partial<ContextLockInput>]
+        | []
+      ),
+      (lock: any) => Promise<T>,
+    ]
   ): Promise<T> {
-    let type: 'read' | 'write';
+    let type: 'read' | 'write' | 'upgradable';
     if (params.length === 2) {
-      type = params.shift() as 'read' | 'write';
+      type = params.shift() as 'read' | 'write' | 'upgradable';
     } else {
       if (typeof params[0] === 'string') {
-        type = params.shift() as 'read' | 'write';
+        type = params.shift() as 'read' | 'write' | 'upgradable';
       } else if (typeof params[0] == null) {
         params.shift();
       }
@@ -229,12 +566,14 @@ class RWLockWriter implements Lockable {
         return this.withReadF(...(params as any));
       case 'write':
         return this.withWriteF(...(params as any));
+      case 'upgradable':
+        return this.withUpgradableF(...(params as any));
     }
   }
 
   public withReadF<T>(
     ...params: [
-      ...([ctx?: Partial<ContextTimedInput>] | []),
+      ...([ctx?: Partial<ContextLockInput>] | []),
       (lock: RWLockWriter) => Promise<T>,
     ]
   ): Promise<T> {
@@ -244,7 +583,7 @@ class RWLockWriter implements Lockable {
 
   public withWriteF<T>(
     ...params: [
-      ...([ctx?: Partial<ContextTimedInput>] | []),
+      ...([ctx?: Partial<ContextLockInput>] | []),
       (lock: RWLockWriter) => Promise<T>,
     ]
   ): Promise<T> {
@@ -252,23 +591,67 @@ class RWLockWriter implements Lockable {
     return withF([this.write(...(params as any))], ([lock]) => f(lock));
   }
 
+  public withUpgradableF<T>(
+    ...params: [
+      ...([ctx?: Partial<ContextLockInput>] | []),
+      (upgradable: RWLockUpgradable<RWLockWriter>) => Promise<T>,
+    ]
+  ): Promise<T> {
+    const f = params.pop() as (
+      upgradable: RWLockUpgradable<RWLockWriter>,
+    ) => Promise<T>;
+    return withF([this.upgradable(...(params as any))], ([upgradable]) =>
+      f(upgradable),
+    );
+  }
+
+  public withG<T, TReturn, TNext>(
+    ...params:
+      | [
+          type: 'upgradable',
+          ctx: Partial<ContextLockInput> | undefined,
+          f: (
+            upgradable: RWLockUpgradable<RWLockWriter>,
+          ) => AsyncGenerator<T, TReturn, TNext>,
+        ]
+      | [
+          type: 'upgradable',
+          f: (
+            upgradable: RWLockUpgradable<RWLockWriter>,
+          ) => AsyncGenerator<T, TReturn, TNext>,
+        ]
+  ): AsyncGenerator<T, TReturn, TNext>;
   public withG<T, TReturn, TNext>(
     ...params: [
       ...(
-        | [type?: 'read' | 'write', ctx?: Partial<ContextTimedInput>]
+        | [type?: 'read' | 'write', ctx?: Partial<ContextLockInput>]
         | [type?: 'read' | 'write']
-        | [ctx?: Partial<ContextTimedInput>]
+        | [ctx?: Partial<ContextLockInput>]
         | []
       ),
       (lock: RWLockWriter) => AsyncGenerator<T, TReturn, TNext>,
     ]
+  ): AsyncGenerator<T, TReturn, TNext>;
+  public withG<T, TReturn, TNext>(
+    ...params: [
+      ...(
+        | [
+            type?: 'read' | 'write' | 'upgradable',
+            ctx?: Partial<ContextLockInput>,
+          ]
+        | [type?: 'read' | 'write' | 'upgradable']
+        | [ctx?: Partial<ContextLockInput>]
+        | []
+      ),
+      (lock: any) => AsyncGenerator<T, TReturn, TNext>,
+    ]
   ): AsyncGenerator<T, TReturn, TNext> {
-    let type: 'read' | 'write';
+    let type: 'read' | 'write' | 'upgradable';
     if (params.length === 2) {
-      type = params.shift() as 'read' | 'write';
+      type = params.shift() as 'read' | 'write' | 'upgradable';
     } else {
       if (typeof params[0] === 'string') {
-        type = params.shift() as 'read' | 'write';
+        type = params.shift() as 'read' | 'write' | 'upgradable';
       } else if (typeof params[0] == null) {
         params.shift();
       }
@@ -279,12 +662,14 @@ class RWLockWriter implements Lockable {
         return this.withReadG(...(params as any));
       case 'write':
         return this.withWriteG(...(params as any));
+      case 'upgradable':
+        return this.withUpgradableG(...(params as any));
     }
   }
 
   public withReadG<T, TReturn, TNext>(
     ...params: [
-      ...([ctx?: Partial<ContextTimedInput>] | []),
+      ...([ctx?: Partial<ContextLockInput>] | []),
       (lock: RWLockWriter) => AsyncGenerator<T, TReturn, TNext>,
     ]
   ): AsyncGenerator<T, TReturn, TNext> {
@@ -296,7 +681,7 @@ class RWLockWriter implements Lockable {
 
   public withWriteG<T, TReturn, TNext>(
     ...params: [
-      ...([ctx?: Partial<ContextTimedInput>] | []),
+      ...([ctx?: Partial<ContextLockInput>] | []),
       (lock: RWLockWriter) => AsyncGenerator<T, TReturn, TNext>,
     ]
   ): AsyncGenerator<T, TReturn, TNext> {
@@ -305,6 +690,393 @@ class RWLockWriter implements Lockable {
     ) => AsyncGenerator<T, TReturn, TNext>;
     return withG([this.write(...(params as any))], ([lock]) => g(lock));
   }
+
+  public withUpgradableG<T, TReturn, TNext>(
+    ...params: [
+      ...([ctx?: Partial<ContextLockInput>] | []),
+      (
+        upgradable: RWLockUpgradable<RWLockWriter>,
+      ) => AsyncGenerator<T, TReturn, TNext>,
+    ]
+  ): AsyncGenerator<T, TReturn, TNext> {
+    const g = params.pop() as (
+      upgradable: RWLockUpgradable<RWLockWriter>,
+    ) => AsyncGenerator<T, TReturn, TNext>;
+    return withG([this.upgradable(...(params as any))], ([upgradable]) =>
+      g(upgradable),
+    );
+  }
+
+  /**
+   * Upgrade the upgradable lock to a write lock.
+   * This blocks new readers and waits for the existing readers to release.
+   * This is only called through the handle of the upgradable lock.
+   */
+  protected upgrade(ctx?: Partial<ContextLockInput>): PromiseCancellable<void> {
+    if (this.upgradeStatus == null) {
+      throw new errors.ErrorAsyncLocksRWLockUpgrade(
+        'Cannot upgrade without holding the upgradable lock',
+      );
+    }
+    if (this.upgradeStatus === 'write') {
+      return PromiseCancellable.resolve();
+    }
+    if (this.upgradeStatus === 'upgrading') {
+      return this.upgradeP!;
+    }
+    ctx = ctx != null ? { ...ctx } : {};
+    this.upgradeP = utils.setupTimedCancellable(
+      (ctx: ContextTimed) => {
+        const {
+          p: upgradeP,
+          resolveP: resolveUpgradeP,
+          rejectP: rejectUpgradeP,
+        } = utils.promise<void>();
+        if (ctx.signal.aborted) {
+          rejectUpgradeP(ctx.signal.reason);
+          return upgradeP;
+        }
+        // Only the upgradable lock holder can hold the upgrade lock
+        this.upgradeRelease = this.upgradeLock.tryLock()!;
+        this.upgradeStatus = 'upgrading';
+        const abortHandler = () => {
+          delete this.upgradeDrain;
+          this.upgradeStatus = 'read';
+          const upgradeRelease = this.upgradeRelease!;
+          delete this.upgradeRelease;
+          void upgradeRelease();
+          rejectUpgradeP(ctx.signal.reason);
+        };
+        this.upgradeDrain = () => {
+          ctx.signal.removeEventListener('abort', abortHandler);
+          delete this.upgradeDrain;
+          // The upgraded lock is counted as a writer
+          --this._readerCount;
+          ++this._writerCount;
+          this.upgradeStatus = 'write';
+          resolveUpgradeP();
+        };
+        if (this._readerCount === 1) {
+          this.upgradeDrain();
+        } else {
+          ctx.signal.addEventListener('abort', abortHandler, { once: true });
+        }
+        return upgradeP;
+      },
+      true,
+      Infinity,
+      errors.ErrorAsyncLocksTimeout,
+      ctx!,
+      [],
+      () => this.timeoutData('upgrade'),
+    );
+    return this.upgradeP;
+  }
+
+  /**
+   * Downgrade the upgraded lock back to an upgradable read lock.
+   * If the upgrade is still in progress, it is cancelled.
+   * This is only called through the handle of the upgradable lock.
+   */
+  protected async downgrade(): Promise<void> {
+    if (this.upgradeStatus == null) {
+      throw new errors.ErrorAsyncLocksRWLockUpgrade(
+        'Cannot downgrade without holding the upgradable lock',
+      );
+    }
+    if (this.upgradeStatus === 'read') return;
+    if (this.upgradeStatus === 'upgrading') {
+      const upgradeP = this.upgradeP!;
+      upgradeP.cancel(
+        new errors.ErrorAsyncLocksRWLockUpgrade(
+          'Upgrade was cancelled by downgrade',
+        ),
+      );
+      await upgradeP.catch(() => {});
+      return;
+    }
+    ++this._readerCount;
+    --this._writerCount;
+    this.upgradeStatus = 'read';
+    const upgradeRelease = this.upgradeRelease!;
+    delete this.upgradeRelease;
+    await upgradeRelease();
+  }
+
+  /**
+   * Acquires a read lock for `read` and `upgradable`.
+   * This is not bounded by `maxQueueLength`, nor tracked as a waiter, nor
+   * instrumented, the callers account for the acquisition in `acquired`,
+   * which is called with the release as soon as the read lock is acquired.
+   */
+  protected async acquireRead<T>(
+    ctx: ContextTimed,
+    acquired: (readRelease: ResourceRelease) => T,
+  ): Promise<T> {
+    if (this._writerCount > 0) {
+      ++this.readerCountBlocked;
+      const waitWritersLockP = this.writersLock.waitForUnlock(ctx);
+      try {
+        await waitWritersLockP;
+      } finally {
+        --this.readerCountBlocked;
+      }
+    }
+    // Readers cannot join while the upgradable lock is upgrading or upgraded
+    while (this.upgradeLock.isLocked()) {
+      ++this.readerCountBlocked;
+      const waitUpgradeLockP = this.upgradeLock.waitForUnlock(ctx);
+      try {
+        await waitUpgradeLockP;
+      } finally {
+        --this.readerCountBlocked;
+      }
+    }
+    const readerCount = ++this._readerCount;
+    // The first reader locks
+    if (readerCount === 1) {
+      const acquireReadersLock = this.readersLock.lock(ctx);
+      this.acquireReadersLockP = acquireReadersLock();
+      try {
+        [this.readersRelease] = await this.acquireReadersLockP;
+      } catch (e) {
+        --this._readerCount;
+        throw e;
+      }
+    } else {
+      // Without this, the second or later reader will always lock faster
+      // than the first reader. This forces the subsequent readers to always
+      // wait for the first reader to settle, while discarding any errors.
+      await this.acquireReadersLockP.catch(() => {});
+    }
+    return acquired(async () => {
+      const readerCount = --this._readerCount;
+      // The last reader unlocks
+      if (readerCount === 0) {
+        await this.readersRelease();
+      } else if (readerCount === 1) {
+        // The remaining reader may be the upgrading lock
+        this.upgradeDrain?.();
+      }
+    });
+  }
+
+  /**
+   * Attempts a read lock for `tryRead` and `tryUpgradable`.
+   * This is not instrumented, the callers account for the acquisition.
+   */
+  protected tryAcquireRead(): ResourceRelease | undefined {
+    // Readers cannot overtake pending or active writers
+    if (this._writerCount > 0 || this.upgradeLock.isLocked()) return;
+    // The first reader locks
+    if (this._readerCount === 0) {
+      const readersRelease = this.readersLock.tryLock();
+      if (readersRelease == null) return;
+      this.readersRelease = readersRelease;
+      this.acquireReadersLockP = PromiseCancellable.resolve([
+        readersRelease,
+        this.readersLock,
+      ] as const);
+    }
+    ++this._readerCount;
+    return async () => {
+      const readerCount = --this._readerCount;
+      // The last reader unlocks
+      if (readerCount === 0) {
+        await this.readersRelease();
+      } else if (readerCount === 1) {
+        // The remaining reader may be the upgrading lock
+        this.upgradeDrain?.();
+      }
+    };
+  }
+
+  /**
+   * Binds the upgrades and downgrades of the handle to the upgradable hold.
+   */
+  protected holdUpgradable(
+    release: ResourceRelease,
+  ): readonly [ResourceRelease, RWLockUpgradable<RWLockWriter>] {
+    let released = false;
+    return [
+      async () => {
+        released = true;
+        await release();
+      },
+      {
+        lock: this,
+        upgrade: (ctx?: Partial<ContextLockInput>) => {
+          if (released) {
+            return PromiseCancellable.reject(
+              new errors.ErrorAsyncLocksRWLockUpgrade(
+                'Cannot upgrade after the upgradable lock is released',
+              ),
+            );
+          }
+          return this.upgrade(ctx);
+        },
+        downgrade: async () => {
+          if (released) {
+            throw new errors.ErrorAsyncLocksRWLockUpgrade(
+              'Cannot downgrade after the upgradable lock is released',
+            );
+          }
+          await this.downgrade();
+        },
+      },
+    ] as const;
+  }
+
+  protected timeoutData(
+    type: 'read' | 'write' | 'upgradable' | 'upgrade',
+    waiter?: Waiter,
+  ): Omit<TimeoutData, 'elapsed'> {
+    const i = waiter != null ? [...this.waiters].indexOf(waiter) : -1;
+    return {
+      lock: RWLockWriter.name,
+      type,
+      queuePosition: i > -1 ? i : undefined,
+      holderCount: this.holderCount,
+    };
+  }
+
+  /**
+   * Acquires without queueing because the queue is full.
+   * The fencing token of write locks is kept.
+   */
+  protected acquireQueueFull(
+    type: 'write',
+  ): PromiseCancellable<readonly [ResourceReleaseFenced, RWLockWriter]>;
+  protected acquireQueueFull(
+    type: 'read',
+  ): PromiseCancellable<readonly [ResourceRelease, RWLockWriter]>;
+  protected acquireQueueFull(
+    type: 'upgradable',
+  ): PromiseCancellable<
+    readonly [ResourceRelease, RWLockUpgradable<RWLockWriter>]
+  >;
+  protected acquireQueueFull(
+    type: 'read' | 'write' | 'upgradable',
+  ): PromiseCancellable<
+    readonly [ResourceRelease, RWLockWriter | RWLockUpgradable<RWLockWriter>]
+  > {
+    // Successful tries emit their own lifecycle events
+    const [release, resource] =
+      type === 'upgradable'
+        ? this.tryUpgradable() ?? []
+        : [this.tryLock(type), this];
+    if (release == null) {
+      const waiter: Waiter = { type, queued: performance.now() };
+      this.instrument({ event: 'queued', lock: RWLockWriter.name, type });
+      const e = new errors.ErrorAsyncLocksQueueFull(
+        `RWLockWriter queue is full with ${this.waiters.size} waiters`,
+        {
+          data: {
+            lock: RWLockWriter.name,
+            type,
+            queueLength: this.waiters.size,
+          },
+        },
+      );
+      this.emitRejected(waiter, e);
+      return PromiseCancellable.reject(e);
+    }
+    return PromiseCancellable.resolve([release, resource!] as const);
+  }
+
+  /**
+   * Waiters are tracked in arrival order until their acquisition settles.
+   */
+  protected addWaiter(type: 'read' | 'write' | 'upgradable'): Waiter {
+    const waiter: Waiter = {
+      type,
+      queued: performance.now(),
+      stack: this.watchdog?.trace(),
+    };
+    this.waiters.add(waiter);
+    this.instrument({ event: 'queued', lock: RWLockWriter.name, type });
+    return waiter;
+  }
+
+  protected settleWaiter<T>(
+    waiter: Waiter,
+    acquireP: PromiseCancellable<T>,
+  ): PromiseCancellable<T> {
+    void acquireP.then(
+      () => {
+        this.waiters.delete(waiter);
+      },
+      (e) => {
+        this.waiters.delete(waiter);
+        this.emitRejected(waiter, e);
+      },
+    );
+    return acquireP;
+  }
+
+  /**
+   * The acquisition `stack` is traced here if it is not given.
+   */
+  protected watch(
+    release: ResourceRelease,
+    type: 'read' | 'write' | 'upgradable',
+    stack?: string,
+  ): ResourceRelease {
+    if (this.watchdog == null) return release;
+    return this.watchdog.watch(release, {
+      lock: RWLockWriter.name,
+      type,
+      stack: stack ?? this.watchdog.trace(),
+    });
+  }
+
+  protected emitAcquired(waiter: Waiter): void {
+    waiter.acquired = performance.now();
+    this.instrument({
+      event: 'acquired',
+      lock: RWLockWriter.name,
+      type: waiter.type,
+      waitDuration: waiter.acquired - waiter.queued,
+    });
+  }
+
+  /**
+   * Successful tries are queued and acquired without waiting.
+   */
+  protected emitTried(type: 'read' | 'write' | 'upgradable'): Waiter {
+    const waiter: Waiter = { type, queued: performance.now() };
+    this.instrument({ event: 'queued', lock: RWLockWriter.name, type });
+    waiter.acquired = waiter.queued;
+    this.instrument({
+      event: 'acquired',
+      lock: RWLockWriter.name,
+      type,
+      waitDuration: 0,
+    });
+    return waiter;
+  }
+
+  protected emitReleased(waiter: Waiter): void {
+    this.instrument({
+      event: 'released',
+      lock: RWLockWriter.name,
+      type: waiter.type,
+      holdDuration: performance.now() - waiter.acquired!,
+    });
+  }
+
+  protected emitRejected(waiter: Waiter, reason: unknown): void {
+    this.instrument({
+      event:
+        reason instanceof errors.ErrorAsyncLocksTimeout
+          ? 'timedout'
+          : 'aborted',
+      lock: RWLockWriter.name,
+      type: waiter.type,
+      waitDuration: performance.now() - waiter.queued,
+      reason,
+    });
+  }
 }
 
 export default RWLockWriter;
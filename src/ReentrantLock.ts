@@ -0,0 +1,323 @@
+import type { ResourceRelease } from '@matrixai/resources';
+import type {
+  ResourceAcquireCancellable,
+  Lockable,
+  LockInstrument,
+  LockOwner,
+  ContextTimed,
+  ContextLockInput,
+} from './types.js';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { PromiseCancellable } from '@matrixai/async-cancellable';
+import { withF, withG } from '@matrixai/resources';
+import Semaphore from './Semaphore.js';
+import * as utils from './utils.js';
+import * as errors from './errors.js';
+
+/**
+ * Re-entrant mutual exclusion lock.
+ * The lock is held by an owner, which is either an explicit token or the
+ * owner of the current `withF` or `withG` context. Nested acquisitions by
+ * the same owner are counted and do not block. The underlying semaphore is
+ * only released when the outermost hold is released.
+ */
+class ReentrantLock implements Lockable {
+  protected semaphore: Semaphore = new Semaphore(1, false, {
+    lockName: ReentrantLock.name,
+  });
+  protected semaphoreRelease?: ResourceRelease;
+  protected ownerStorage: AsyncLocalStorage<LockOwner> =
+    new AsyncLocalStorage();
+  protected _owner?: LockOwner;
+  protected holds: Array<{ released: boolean }> = [];
+  /**
+   * Acquisitions of each owner that are waiting for the semaphore.
+   */
+  protected pending: Map<LockOwner, PromiseCancellable<unknown>> = new Map();
+  protected instrument?: LockInstrument;
+
+  /**
+   * The lifecycle events of the lock are emitted to `instrument`.
+   * Nested acquisitions emit their own events.
+   */
+  public constructor({ instrument }: { instrument?: LockInstrument } = {}) {
+    this.instrument = instrument;
+  }
+
+  /**
+   * Number of owners holding or waiting for the lock.
+   * Nested acquisitions are not counted, see `holdCount`.
+   */
+  public get count(): number {
+    return this.semaphore.count;
+  }
+
+  /**
+   * Current owner of the lock, `undefined` if it is not held.
+   */
+  public get owner(): LockOwner | undefined {
+    return this._owner;
+  }
+
+  /**
+   * Number of nested acquisitions held by the current owner.
+   */
+  public get holdCount(): number {
+    return this.holds.length;
+  }
+
+  public isLocked(): boolean {
+    return this.semaphore.isLocked();
+  }
+
+  /**
+   * Acquisitions by the owner of the lock re-enter it, and acquisitions by an
+   * owner that is still waiting for the lock join that acquisition.
+   * Without an explicit owner or the owner of the current `withF` or `withG`
+   * context, each acquisition has a unique owner and is not reentrant.
+   */
+  public lock(
+    ...params:
+      | [owner?: LockOwner, ctx?: Partial<ContextLockInput>]
+      | [owner?: LockOwner]
+      | [ctx?: Partial<ContextLockInput>]
+      | []
+  ): ResourceAcquireCancellable<ReentrantLock> {
+    const owner =
+      params.length === 2
+        ? params[0]
+        : typeof params[0] === 'string' || typeof params[0] === 'symbol'
+        ? params[0]
+        : undefined;
+    const ctx =
+      params.length === 2
+        ? params[1]
+        : typeof params[0] !== 'string' && typeof params[0] !== 'symbol'
+        ? params[0]
+        : undefined;
+    return () => {
+      const owner_ = this.resolveOwner(owner);
+      if (this._owner !== undefined && this._owner === owner_) {
+        return utils.instrumentAcquire(
+          PromiseCancellable.resolve([this.acquireHold(), this] as const),
+          this.instrument,
+          { lock: ReentrantLock.name },
+        );
+      }
+      const pendingP = this.pending.get(owner_);
+      if (pendingP != null) {
+        return this.joinPending(owner_, pendingP, ctx);
+      }
+      const acquireP = this.semaphore.lock(1, ctx)();
+      const lockP = acquireP.then(
+        ([release]) => {
+          this._owner = owner_;
+          this.semaphoreRelease = release;
+          return [this.acquireHold(), this] as const;
+        },
+        undefined,
+        (signal) => {
+          // Propagate cancellation to `acquireP`
+          signal.addEventListener(
+            'abort',
+            () => {
+              acquireP.cancel(signal.reason);
+            },
+            { once: true },
+          );
+        },
+      );
+      this.pending.set(owner_, lockP);
+      const settle = () => {
+        if (this.pending.get(owner_) === lockP) this.pending.delete(owner_);
+      };
+      void lockP.then(settle, settle);
+      return utils.instrumentAcquire(lockP, this.instrument, {
+        lock: ReentrantLock.name,
+      });
+    };
+  }
+
+  /**
+   * Attempt to lock without queueing.
+   * Returns `undefined` if the lock is held by a different owner.
+   */
+  public tryLock(owner?: LockOwner): ResourceRelease | undefined {
+    const owner_ = this.resolveOwner(owner);
+    if (this._owner === undefined || this._owner !== owner_) {
+      const release = this.semaphore.tryLock(1);
+      if (release == null) return;
+      this._owner = owner_;
+      this.semaphoreRelease = release;
+    }
+    return utils.instrumentTryLock(this.acquireHold(), this.instrument, {
+      lock: ReentrantLock.name,
+    });
+  }
+
+  /**
+   * Releases the innermost hold of the owner.
+   * If the owner is not specified, it is taken from the current context.
+   * This throws `ErrorAsyncLocksReentrantLockOwner` if the lock is not held
+   * by the owner.
+   */
+  public async unlock(owner?: LockOwner): Promise<void> {
+    const owner_ = owner ?? this.ownerStorage.getStore();
+    if (owner_ === undefined || owner_ !== this._owner) {
+      throw new errors.ErrorAsyncLocksReentrantLockOwner(
+        `Lock is not held by ${String(owner_)}`,
+      );
+    }
+    await this.releaseHold(this.holds[this.holds.length - 1]);
+  }
+
+  public waitForUnlock(
+    ctx?: Partial<ContextLockInput>,
+  ): PromiseCancellable<void> {
+    return this.semaphore.waitForUnlock(1, ctx);
+  }
+
+  /**
+   * The callback is executed within the owner's context.
+   * Nested `lock`, `withF` and `withG` calls without an explicit owner
+   * inside the callback will re-enter the lock.
+   */
+  public withF<T>(
+    ...params: [
+      ...(
+        | [owner?: LockOwner, ctx?: Partial<ContextLockInput>]
+        | [owner?: LockOwner]
+        | [ctx?: Partial<ContextLockInput>]
+        | []
+      ),
+      (lock: ReentrantLock) => Promise<T>,
+    ]
+  ): Promise<T> {
+    const f = params.pop() as (lock: ReentrantLock) => Promise<T>;
+    const [owner, ctx] = this.parseWithParams(params);
+    return withF([this.lock(owner, ctx)], ([lock]) =>
+      this.ownerStorage.run(owner, () => f(lock)),
+    );
+  }
+
+  /**
+   * The generator is resumed within the owner's context.
+   * Nested `lock`, `withF` and `withG` calls without an explicit owner
+   * inside the generator will re-enter the lock.
+   */
+  public withG<T, TReturn, TNext>(
+    ...params: [
+      ...(
+        | [owner?: LockOwner, ctx?: Partial<ContextLockInput>]
+        | [owner?: LockOwner]
+        | [ctx?: Partial<ContextLockInput>]
+        | []
+      ),
+      (lock: ReentrantLock) => AsyncGenerator<T, TReturn, TNext>,
+    ]
+  ): AsyncGenerator<T, TReturn, TNext> {
+    const g = params.pop() as (
+      lock: ReentrantLock,
+    ) => AsyncGenerator<T, TReturn, TNext>;
+    const [owner, ctx] = this.parseWithParams(params);
+    return withG([this.lock(owner, ctx)], ([lock]) => {
+      const gen = this.ownerStorage.run(owner, () => g(lock));
+      const ownerStorage = this.ownerStorage;
+      return {
+        next: (...args: [] | [TNext]) =>
+          ownerStorage.run(owner, () => gen.next(...args)),
+        return: (value: TReturn | PromiseLike<TReturn>) =>
+          ownerStorage.run(owner, () => gen.return(value)),
+        throw: (e: any) => ownerStorage.run(owner, () => gen.throw(e)),
+        [Symbol.asyncIterator]() {
+          return this;
+        },
+      };
+    });
+  }
+
+  protected parseWithParams(
+    params: Array<unknown>,
+  ): [LockOwner, Partial<ContextLockInput> | undefined] {
+    let owner: LockOwner | undefined;
+    let ctx: Partial<ContextLockInput> | undefined;
+    if (params.length === 2) {
+      owner = params[0] as LockOwner | undefined;
+      ctx = params[1] as Partial<ContextLockInput> | undefined;
+    } else if (typeof params[0] === 'string' || typeof params[0] === 'symbol') {
+      owner = params[0];
+    } else {
+      ctx = params[0] as Partial<ContextLockInput> | undefined;
+    }
+    return [this.resolveOwner(owner), ctx];
+  }
+
+  /**
+   * Waits for the pending acquisition of the `owner` rather than queueing
+   * behind it, and then locks again. This re-enters the lock if the pending
+   * acquisition succeeded, otherwise this acquires the lock itself.
+   */
+  protected joinPending(
+    owner: LockOwner,
+    pendingP: PromiseCancellable<unknown>,
+    ctx?: Partial<ContextLockInput>,
+  ): PromiseCancellable<readonly [ResourceRelease, ReentrantLock?]> {
+    ctx = ctx != null ? { ...ctx } : {};
+    return utils.setupTimedCancellable(
+      (ctx: ContextTimed) => {
+        const { p: settledP, resolveP, rejectP } = utils.promise();
+        if (ctx.signal.aborted) {
+          rejectP(ctx.signal.reason);
+        } else {
+          const abortHandler = () => {
+            rejectP(ctx.signal.reason);
+          };
+          ctx.signal.addEventListener('abort', abortHandler, { once: true });
+          const settle = () => {
+            ctx.signal.removeEventListener('abort', abortHandler);
+            resolveP();
+          };
+          void pendingP.then(settle, settle);
+        }
+        return settledP.then(() => this.lock(owner, ctx)());
+      },
+      true,
+      Infinity,
+      errors.ErrorAsyncLocksTimeout,
+      ctx,
+      [],
+      () => ({ lock: ReentrantLock.name }),
+    );
+  }
+
+  /**
+   * Explicit owners take precedence over the owner of the current context.
+   * If there is neither, then a unique owner is created.
+   */
+  protected resolveOwner(owner?: LockOwner): LockOwner {
+    return owner ?? this.ownerStorage.getStore() ?? Symbol('owner');
+  }
+
+  protected acquireHold(): ResourceRelease {
+    const hold = { released: false };
+    this.holds.push(hold);
+    return async () => {
+      await this.releaseHold(hold);
+    };
+  }
+
+  protected async releaseHold(hold: { released: boolean }): Promise<void> {
+    if (hold.released) return;
+    hold.released = true;
+    this.holds.splice(this.holds.indexOf(hold), 1);
+    // The outermost hold unlocks
+    if (this.holds.length === 0) {
+      const semaphoreRelease = this.semaphoreRelease!;
+      this._owner = undefined;
+      delete this.semaphoreRelease;
+      await semaphoreRelease();
+    }
+  }
+}
+
+export default ReentrantLock;
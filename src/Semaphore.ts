@@ -1,36 +1,144 @@
-import type { PromiseCancellable } from '@matrixai/async-cancellable';
+import type { ResourceRelease } from '@matrixai/resources';
 import type {
-  ResourceAcquireCancellable,
+  ResourceAcquireFenced,
+  ResourceReleaseFenced,
   Lockable,
+  LockGuardSync,
+  LockInstrument,
+  LockStatsData,
+  TimeoutData,
+  SemaphoreScheduling,
   ContextTimed,
-  ContextTimedInput,
+  ContextLockInput,
 } from './types.js';
+import type { Queue } from './queues.js';
+import type Watchdog from './Watchdog.js';
+import { PromiseCancellable } from '@matrixai/async-cancellable';
 import { withF, withG } from '@matrixai/resources';
+import { FIFOQueue, HeapQueue } from './queues.js';
+import LockStats from './LockStats.js';
 import * as utils from './utils.js';
 import * as errors from './errors.js';
 
 type Task = {
   task: () => void;
   weight: number;
-  abortHandler: () => void;
-  aborted?: boolean;
+  rank: number;
+  seq: number;
+  dequeueCount: number;
+  settled: boolean;
 };
 
 class Semaphore implements Lockable {
-  public readonly limit: number;
   public readonly priority: boolean;
 
+  public readonly scheduling: SemaphoreScheduling;
+
+  /**
+   * Number of waiters that may be dequeued while a waiter waits, before the
+   * waiter can no longer be overtaken in `smallestFirst` scheduling.
+   */
+  public readonly starvationBound: number;
+
+  /**
+   * Waiters that would exceed these bounds of the queue are rejected with
+   * `ErrorAsyncLocksQueueFull` instead of being queued.
+   */
+  public readonly maxQueueLength: number;
+  public readonly maxQueueWeight: number;
+
+  /**
+   * Milliseconds of waiting that promote a waiter by 1 priority level.
+   * Aging prevents low priority waiters from being starved.
+   */
+  public readonly aging?: number;
+
+  protected lockName: string;
+  protected instrument: LockInstrument;
+  protected watchdog?: Watchdog;
+  protected lockStats: LockStats = new LockStats();
+  protected _limit: number;
   protected _count: number = 0;
   protected currentWeight: number = 0;
-  protected queue: Array<Task> = [];
-  protected abortQueueMap: WeakMap<() => void, Task> = new WeakMap();
+  protected holderCount: number = 0;
+  protected queue: Queue<Task>;
+  /**
+   * Tasks in arrival order, only used by `smallestFirst` scheduling
+   */
+  protected arrivals?: FIFOQueue<Task>;
+  protected taskCounter: number = 0;
+  protected dequeueCounter: number = 0;
+  protected reservingTask?: Task;
+  protected reserved: number = 0;
+  protected tokenCounter: number = 0;
+  protected queueLength: number = 0;
+  protected queueWeight: number = 0;
 
-  public constructor(limit: number, priority: boolean = false) {
+  /**
+   * The `priority` flag selects `smallestFirst` scheduling, unless the
+   * `scheduling` is explicitly selected.
+   * Holds are watched by the `watchdog` for leaks and long holds.
+   * Locks built on the semaphore set `lockName` so that their events and
+   * errors are reported as the lock rather than the semaphore.
+   */
+  public constructor(
+    limit: number,
+    priority: boolean = false,
+    {
+      aging,
+      scheduling = priority ? 'smallestFirst' : 'fifo',
+      starvationBound = 100,
+      maxQueueLength = Infinity,
+      maxQueueWeight = Infinity,
+      instrument,
+      watchdog,
+      lockName = Semaphore.name,
+    }: {
+      aging?: number;
+      scheduling?: SemaphoreScheduling;
+      starvationBound?: number;
+      maxQueueLength?: number;
+      maxQueueWeight?: number;
+      instrument?: LockInstrument;
+      watchdog?: Watchdog;
+      lockName?: string;
+    } = {},
+  ) {
     if (limit < 1) {
       throw new RangeError('Semaphore must be constructed with `limit` >= 1');
     }
-    this.limit = limit;
-    this.priority = priority;
+    if (aging != null && aging <= 0) {
+      throw new RangeError('Semaphore must be constructed with `aging` > 0');
+    }
+    if (starvationBound < 0) {
+      throw new RangeError(
+        'Semaphore must be constructed with `starvationBound` >= 0',
+      );
+    }
+    this._limit = limit;
+    this.priority = scheduling === 'smallestFirst';
+    this.scheduling = scheduling;
+    this.starvationBound = starvationBound;
+    this.maxQueueLength = maxQueueLength;
+    this.maxQueueWeight = maxQueueWeight;
+    this.aging = aging;
+    this.lockName = lockName;
+    this.instrument = (event) => {
+      this.lockStats.record(event);
+      instrument?.(event);
+    };
+    this.watchdog = watchdog;
+    // Settled tasks are left in the queues and skipped when dequeued
+    // The FIFO queue is used until it cannot represent the ordering
+    this.queue =
+      this.priority || aging != null
+        ? new HeapQueue((task1, task2) => this.compareTasks(task1, task2))
+        : new FIFOQueue();
+    if (this.priority) this.arrivals = new FIFOQueue();
+  }
+
+  public get limit(): number {
+    return this._limit;
   }
 
   public get count(): number {
@@ -46,11 +154,11 @@ class Semaphore implements Lockable {
 
   public lock(
     ...params:
-      | [weight?: number, ctx?: Partial<ContextTimedInput>]
+      | [weight?: number, ctx?: Partial<ContextLockInput>]
       | [weight?: number]
-      | [ctx?: Partial<ContextTimedInput>]
+      | [ctx?: Partial<ContextLockInput>]
       | []
-  ): ResourceAcquireCancellable<Semaphore> {
+  ): ResourceAcquireFenced<Semaphore> {
     const weight =
       (params.length === 2
         ? params[0]
@@ -66,11 +174,31 @@ class Semaphore implements Lockable {
     if (weight < 1) {
       throw new RangeError('Semaphore must be locked with `weight` >= 1');
     }
+    const ctxTimed = ctx?.signal != null || ctx?.timer != null;
+    const priority = ctx?.priority ?? 0;
     ctx = ctx != null ? { ...ctx } : {};
     return () => {
+      const stack = this.watchdog?.trace();
+      // Uncontended acquisitions without a signal or timer cannot time out or
+      // be aborted, so they skip the timer and abort handling
+      if (
+        !ctxTimed &&
+        this.peekQueue() == null &&
+        this.currentWeight + weight <= this._limit
+      ) {
+        this._count++;
+        this.instrument({ event: 'queued', lock: this.lockName, weight });
+        return PromiseCancellable.resolve([
+          this.hold(weight, performance.now(), stack),
+          this,
+        ] as const);
+      }
+      let task: Task | undefined;
       return utils.setupTimedCancellable(
         (ctx: ContextTimed, weight: number) => {
           this._count++;
+          const queued = performance.now();
+          this.instrument({ event: 'queued', lock: this.lockName, weight });
           // Change `any` time to the resource thing
           const {
             p: lockP,
@@ -80,41 +208,41 @@ class Semaphore implements Lockable {
           // If signal is already aborted, then we can reject with reason
           if (ctx.signal.aborted) {
             this._count--;
+            this.emitRejected(weight, queued, ctx.signal.reason);
             rejectLockP(ctx.signal.reason);
             return lockP;
           }
           const abortHandler = () => {
             this._count--;
-            const taskToAbort = this.abortQueueMap.get(abortHandler);
-            if (taskToAbort != null) {
-              taskToAbort.aborted = true;
-            }
+            this.settleTask(task!);
+            this.emitRejected(weight, queued, ctx.signal.reason);
             rejectLockP(ctx.signal.reason);
+            // The waiters behind the settled task may now be dequeued
+            this.processQueue();
           };
-          let released = false;
-          const task = {
+          task = {
             task: () => {
-              this.currentWeight += weight;
               ctx.signal.removeEventListener('abort', abortHandler);
-              resolveLockP([
-                async () => {
-                  if (released) return;
-                  released = true;
-                  this._count--;
-                  this.currentWeight -= weight;
-                  this.processQueue();
-                },
-                this,
-              ]);
+              resolveLockP([this.hold(weight, queued, stack), this]);
             },
             weight,
-            abortHandler,
-            aborted: false,
+            rank: this.rankTask(priority),
+            seq: this.taskCounter++,
+            dequeueCount: this.dequeueCounter,
+            settled: false,
           };
           ctx.signal.addEventListener('abort', abortHandler, { once: true });
-          this.abortQueueMap.set(abortHandler, task);
           this.insertQueue(task);
           this.processQueue();
+          if (!task.settled && this.isQueueFull()) {
+            ctx.signal.removeEventListener('abort', abortHandler);
+            this._count--;
+            this.settleTask(task);
+            const e = this.queueFullError();
+            this.emitRejected(weight, queued, e);
+            rejectLockP(e);
+            this.processQueue();
+          }
           return lockP;
         },
         true,
@@ -122,15 +250,69 @@ class Semaphore implements Lockable {
         errors.ErrorAsyncLocksTimeout,
         ctx!,
         [weight],
+        () => this.timeoutData(weight, task),
       );
     };
   }
 
+  /**
+   * Contention statistics since construction or the last `resetStats`.
+   */
+  public stats(): LockStatsData {
+    return this.lockStats.stats();
+  }
+
+  public resetStats(): void {
+    this.lockStats.reset();
+  }
+
+  /**
+   * Locks and resolves to a guard that releases the lock when disposed.
+   */
+  public acquire(
+    ...params: Parameters<Semaphore['lock']>
+  ): PromiseCancellable<LockGuardSync<Semaphore>> {
+    return utils.lockGuard(this.lock(...params)(), this, true);
+  }
+
+  /**
+   * Attempt to lock without queueing.
+   * Returns the release function if the weight can be acquired immediately,
+   * otherwise returns `undefined`.
+   * This will not overtake any queued lockers or waiters.
+   */
+  public tryLock(weight: number = 1): ResourceReleaseFenced | undefined {
+    if (weight < 1) {
+      throw new RangeError('Semaphore must be locked with `weight` >= 1');
+    }
+    if (this.peekQueue() != null || this.currentWeight + weight > this._limit) {
+      return;
+    }
+    this._count++;
+    const queued = performance.now();
+    this.instrument({ event: 'queued', lock: this.lockName, weight });
+    return this.hold(weight, queued, this.watchdog?.trace());
+  }
+
+  /**
+   * Resize the limit of the semaphore.
+   * Growing the limit immediately admits queued lockers that now fit.
+   * Shrinking the limit lets the current holders finish, but new lockers
+   * are not admitted until the current weight falls under the new limit.
+   */
+  public setLimit(limit: number): void {
+    if (limit < 1) {
+      throw new RangeError('Semaphore must be resized with `limit` >= 1');
+    }
+    this._limit = limit;
+    this.processQueue();
+  }
+
   public waitForUnlock(
     ...params:
-      | [weight?: number, ctx?: Partial<ContextTimedInput>]
+      | [weight?: number, ctx?: Partial<ContextLockInput>]
       | [weight?: number]
-      | [ctx?: Partial<ContextTimedInput>]
+      | [ctx?: Partial<ContextLockInput>]
       | []
   ): PromiseCancellable<void> {
     const weight =
@@ -148,7 +330,9 @@ class Semaphore implements Lockable {
     if (weight < 1) {
       throw new RangeError('Semaphore must be locked with `weight` >= 1');
     }
+    const priority = ctx?.priority ?? 0;
     ctx = ctx != null ? { ...ctx } : {};
+    let task: Task | undefined;
     return utils.setupTimedCancellable(
       (ctx: ContextTimed, weight: number) => {
         const {
@@ -161,25 +345,31 @@ class Semaphore implements Lockable {
           return waitP;
         }
         const abortHandler = () => {
-          const taskToAbort = this.abortQueueMap.get(abortHandler);
-          if (taskToAbort != null) {
-            taskToAbort.aborted = true;
-          }
+          this.settleTask(task!);
           rejectWaitP(ctx.signal.reason);
+          // The waiters behind the settled task may now be dequeued
+          this.processQueue();
         };
-        const task = {
+        task = {
           task: () => {
             ctx.signal.removeEventListener('abort', abortHandler);
             resolveWaitP();
           },
           weight,
-          abortHandler,
-          aborted: false,
+          rank: this.rankTask(priority),
+          seq: this.taskCounter++,
+          dequeueCount: this.dequeueCounter,
+          settled: false,
         };
         ctx.signal.addEventListener('abort', abortHandler, { once: true });
-        this.abortQueueMap.set(abortHandler, task);
         this.insertQueue(task);
         this.processQueue();
+        if (!task.settled && this.isQueueFull()) {
+          ctx.signal.removeEventListener('abort', abortHandler);
+          this.settleTask(task);
+          rejectWaitP(this.queueFullError());
+          this.processQueue();
+        }
         return waitP;
       },
       true,
@@ -187,15 +377,16 @@ class Semaphore implements Lockable {
       errors.ErrorAsyncLocksTimeout,
       ctx!,
       [weight],
+      () => this.timeoutData(weight, task),
     );
   }
 
   public withF<T>(
     ...params: [
       ...(
-        | [weight?: number, ctx?: Partial<ContextTimedInput>]
+        | [weight?: number, ctx?: Partial<ContextLockInput>]
         | [weight?: number]
-        | [ctx?: Partial<ContextTimedInput>]
+        | [ctx?: Partial<ContextLockInput>]
         | []
       ),
       (semaphore: Semaphore) => Promise<T>,
@@ -210,9 +401,9 @@ class Semaphore implements Lockable {
   public withG<T, TReturn, TNext>(
     ...params: [
       ...(
-        | [weight?: number, ctx?: Partial<ContextTimedInput>]
+        | [weight?: number, ctx?: Partial<ContextLockInput>]
         | [weight?: number]
-        | [ctx?: Partial<ContextTimedInput>]
+        | [ctx?: Partial<ContextLockInput>]
         | []
       ),
       (semaphore: Semaphore) => AsyncGenerator<T, TReturn, TNext>,
@@ -226,30 +417,234 @@ class Semaphore implements Lockable {
     );
   }
 
-  protected insertQueue(task: Task) {
-    // If prioritising small weights, then perform insertion sort.
-    // The resulting queue will be sorted from largest weights to smallest weights.
-    if (this.priority) {
-      let i = this.queue.length;
-      while (i > 0 && this.queue[i - 1].weight < task.weight) {
-        i--;
+  /**
+   * Holds the weight for a locker that is already counted.
+   * Returns the idempotent release function with the next fencing token.
+   * The lifecycle events are emitted if the locker was `queued`.
+   * The hold is watched with the acquisition `stack` if there is a watchdog.
+   */
+  protected hold(
+    weight: number,
+    queued?: number,
+    stack?: string,
+  ): ResourceReleaseFenced {
+    this.currentWeight += weight;
+    const token = ++this.tokenCounter;
+    this.holderCount++;
+    const acquired = performance.now();
+    if (queued != null) {
+      this.instrument({
+        event: 'acquired',
+        lock: this.lockName,
+        weight,
+        waitDuration: acquired - queued,
+      });
+    }
+    let released = false;
+    const release: ResourceRelease = async () => {
+      if (released) return;
+      released = true;
+      if (queued != null) {
+        this.instrument({
+          event: 'released',
+          lock: this.lockName,
+          weight,
+          holdDuration: performance.now() - acquired,
+        });
+      }
+      this._count--;
+      this.currentWeight -= weight;
+      this.holderCount--;
+      if (this.reservingTask != null) {
+        this.reserved = Math.min(
+          this.reserved + weight,
+          this.reservingTask.weight,
+        );
+      }
+      this.processQueue();
+    };
+    if (this.watchdog == null) return utils.fence(release, token);
+    return utils.fence(
+      this.watchdog.watch(release, {
+        lock: this.lockName,
+        weight,
+        stack: stack!,
+      }),
+      token,
+    );
+  }
+
+  protected emitRejected(
+    weight: number,
+    queued: number,
+    reason: unknown,
+  ): void {
+    this.instrument({
+      event:
+        reason instanceof errors.ErrorAsyncLocksTimeout
+          ? 'timedout'
+          : 'aborted',
+      lock: this.lockName,
+      weight,
+      waitDuration: performance.now() - queued,
+      reason,
+    });
+  }
+
+  protected timeoutData(
+    weight: number,
+    task?: Task,
+  ): Omit<TimeoutData, 'elapsed'> {
+    let queuePosition: number | undefined;
+    if (task != null && !task.settled) {
+      queuePosition = 0;
+      let queued = false;
+      for (const task_ of this.queue) {
+        if (task_ === task) {
+          queued = true;
+        } else if (!task_.settled && this.compareTasks(task_, task) < 0) {
+          queuePosition++;
+        }
+      }
+      if (!queued) queuePosition = undefined;
+    }
+    return {
+      lock: this.lockName,
+      weight,
+      queuePosition,
+      holderCount: this.holderCount,
+    };
+  }
+
+  /**
+   * Higher ranks are dequeued first.
+   * Then if prioritising small weights, smaller weights are dequeued first.
+   * Otherwise, tasks are dequeued in FIFO order.
+   */
+  protected compareTasks(task1: Task, task2: Task): number {
+    if (task1.rank !== task2.rank) {
+      return task2.rank - task1.rank;
+    }
+    if (this.priority && task1.weight !== task2.weight) {
+      return task1.weight - task2.weight;
+    }
+    return task1.seq - task2.seq;
+  }
+
+  /**
+   * The rank is the priority the task will have been aged to at any time,
+   * offset by that time. All queued tasks age at the same rate, therefore
+   * the order between ranks is stable while the tasks are queued.
+   */
+  protected rankTask(priority: number): number {
+    if (this.aging == null) return priority;
+    return priority - performance.now() / this.aging;
+  }
+
+  protected insertQueue(task: Task): void {
+    // Switch to the heap queue once there are explicit priorities
+    if (this.queue instanceof FIFOQueue && task.rank !== 0) {
+      const queue = new HeapQueue((task1: Task, task2: Task) =>
+        this.compareTasks(task1, task2),
+      );
+      for (const task_ of this.queue) {
+        if (!task_.settled) queue.push(task_);
       }
-      this.queue.splice(i, 0, task);
-    } else {
-      // Enqueuing into the queue is unfortunately not O(1).
-      this.queue.unshift(task);
+      this.queue = queue;
     }
+    this.queue.push(task);
+    this.arrivals?.push(task);
+    this.queueLength++;
+    this.queueWeight += task.weight;
+  }
+
+  /**
+   * Settles a queued task, it is left in the queues and skipped when dequeued.
+   * A settled reserving task no longer holds its reservation.
+   */
+  protected settleTask(task: Task): void {
+    task.settled = true;
+    this.queueLength--;
+    this.queueWeight -= task.weight;
+    if (task === this.reservingTask) {
+      delete this.reservingTask;
+      this.reserved = 0;
+    }
+  }
+
+  protected isQueueFull(): boolean {
+    return (
+      this.queueLength > this.maxQueueLength ||
+      this.queueWeight > this.maxQueueWeight
+    );
+  }
+
+  protected queueFullError(): errors.ErrorAsyncLocksQueueFull<unknown> {
+    return new errors.ErrorAsyncLocksQueueFull(
+      `${this.lockName} queue is full with ${this.queueLength} waiters`,
+      {
+        data: {
+          lock: this.lockName,
+          queueLength: this.queueLength,
+          queueWeight: this.queueWeight,
+        },
+      },
+    );
+  }
+
+  /**
+   * Returns the next task that is not settled.
+   * Settled tasks at the front of the queues are discarded.
+   */
+  protected peekQueue(): Task | undefined {
+    if (this.arrivals != null) {
+      const oldest = this.peekUnsettled(this.arrivals);
+      if (
+        oldest != null &&
+        this.dequeueCounter - oldest.dequeueCount >= this.starvationBound
+      ) {
+        return oldest;
+      }
+    }
+    return this.peekUnsettled(this.queue);
+  }
+
+  protected peekUnsettled(queue: Queue<Task>): Task | undefined {
+    let task = queue.peek();
+    while (task != null && task.settled) {
+      queue.shift();
+      task = queue.peek();
+    }
+    return task;
+  }
+
+  protected dequeueTask(task: Task): void {
+    this.settleTask(task);
+    this.dequeueCounter++;
+    task.task();
   }
 
   protected processQueue() {
-    while (
-      this.queue.length > 0 &&
-      this.currentWeight + this.queue[this.queue.length - 1].weight <=
-        this.limit
-    ) {
-      const task = this.queue.pop()!;
-      if (!task.aborted) {
-        task.task();
+    let task = this.peekQueue();
+    while (task != null && this.currentWeight + task.weight <= this._limit) {
+      this.dequeueTask(task);
+      task = this.peekQueue();
+    }
+    if (task == null || this.scheduling !== 'reserve') return;
+    // The blocked task reserves the capacity that is released while it is
+    // blocked, the other tasks may only overtake it with the rest
+    if (task !== this.reservingTask) {
+      this.reservingTask = task;
+      this.reserved = 0;
+    }
+    // Dequeued tasks are only settled, so the queue is iterated in place,
+    // which is in order for the FIFO queue, but only roughly in order for the
+    // heap queue
+    for (const task_ of this.queue) {
+      if (this.currentWeight + this.reserved >= this._limit) break;
+      if (task_.settled || task_ === task) continue;
+      if (this.currentWeight + this.reserved + task_.weight <= this._limit) {
+        this.dequeueTask(task_);
       }
     }
   }
@@ -0,0 +1,289 @@
+import type {
+  DeadlockVictimPolicy,
+  DeadlockWait,
+  DeadlockEdge,
+  DeadlockData,
+} from './types.js';
+import * as errors from './errors.js';
+
+type WaitEdge = {
+  wait: DeadlockWait;
+  blocker: object;
+  blockerType: DeadlockEdge['blockerType'];
+  blockerStatus: DeadlockEdge['blockerStatus'];
+};
+
+/**
+ * Wait-for graph used for deadlock detection.
+ * Must be shared between all monitors sharing the same lock box.
+ * Owners register the keys they hold and the keys they are waiting on.
+ * An owner waiting on a key has an edge to every owner that blocks it,
+ * these are the conflicting holders of the key, and the conflicting owners
+ * that were already queued on the key. A cycle in this graph is a deadlock.
+ */
+class WaitForGraph {
+  /**
+   * Policy used to select the participant of a cycle to abort.
+   */
+  public readonly victimPolicy: DeadlockVictimPolicy;
+
+  protected holdsByKey: Map<string, Map<object, 'read' | 'write'>> = new Map();
+  protected holdsByOwner: Map<object, Map<string, 'read' | 'write'>> =
+    new Map();
+  protected waits: Map<object, Set<DeadlockWait>> = new Map();
+  protected ages: WeakMap<object, number> = new WeakMap();
+  protected ageCounter: number = 0;
+  protected seqCounter: number = 0;
+
+  public constructor(victimPolicy: DeadlockVictimPolicy = 'youngest') {
+    this.victimPolicy = victimPolicy;
+  }
+
+  /**
+   * Registers an owner with the graph.
+   * Owners are aged by their registration order, owners that are not
+   * explicitly registered are registered on their first hold or wait.
+   */
+  public register(owner: object): void {
+    if (!this.ages.has(owner)) {
+      this.ages.set(owner, this.ageCounter++);
+    }
+  }
+
+  /**
+   * Registers that `owner` holds `key` with the lock `type`.
+   * Registering an existing hold replaces its lock type.
+   */
+  public hold(owner: object, key: string, type: 'read' | 'write'): void {
+    this.register(owner);
+    let holders = this.holdsByKey.get(key);
+    if (holders == null) {
+      holders = new Map();
+      this.holdsByKey.set(key, holders);
+    }
+    holders.set(owner, type);
+    let holds = this.holdsByOwner.get(owner);
+    if (holds == null) {
+      holds = new Map();
+      this.holdsByOwner.set(owner, holds);
+    }
+    holds.set(key, type);
+  }
+
+  public unhold(owner: object, key: string): void {
+    const holders = this.holdsByKey.get(key);
+    if (holders != null) {
+      holders.delete(owner);
+      if (holders.size === 0) this.holdsByKey.delete(key);
+    }
+    const holds = this.holdsByOwner.get(owner);
+    if (holds != null) {
+      holds.delete(key);
+      if (holds.size === 0) this.holdsByOwner.delete(owner);
+    }
+  }
+
+  /**
+   * Registers that `owner` is waiting on `key` and checks for a deadlock.
+   * If this wait completes a cycle, the victim of the cycle is aborted with
+   * `ErrorAsyncLocksMonitorDeadlock`. The victim may be `owner` itself.
+   * The returned wait must be unregistered with `unwait` when it settles.
+   */
+  public wait(
+    owner: object,
+    key: string,
+    type: 'read' | 'write' | 'upgrade',
+    {
+      priority = 0,
+      writerPreferring = true,
+      abort,
+    }: {
+      priority?: number;
+      writerPreferring?: boolean;
+      abort: (reason: Error) => void;
+    },
+  ): DeadlockWait {
+    this.register(owner);
+    const wait: DeadlockWait = {
+      owner,
+      key,
+      type,
+      seq: this.seqCounter++,
+      priority,
+      writerPreferring,
+      abort,
+    };
+    let waits = this.waits.get(owner);
+    if (waits == null) {
+      waits = new Set();
+      this.waits.set(owner, waits);
+    }
+    waits.add(wait);
+    const cycle = this.findCycle(owner);
+    if (cycle != null) {
+      const victimIndex = this.selectVictim(
+        cycle.map(({ wait }) => wait.owner),
+      );
+      const victim = cycle[victimIndex].wait.owner;
+      // The cycle is described starting from the wait of the victim
+      const edges = [
+        ...cycle.slice(victimIndex),
+        ...cycle.slice(0, victimIndex),
+      ];
+      const data: DeadlockData = {
+        owner: this.getId(victim)!,
+        key: edges[0].wait.key,
+        type: edges[0].wait.type,
+        held: [...(this.holdsByOwner.get(victim) ?? [])],
+        cycle: edges.map(({ wait, blocker, blockerType, blockerStatus }) => ({
+          owner: this.getId(wait.owner)!,
+          key: wait.key,
+          type: wait.type,
+          blocker: this.getId(blocker)!,
+          blockerType,
+          blockerStatus,
+        })),
+      };
+      for (const wait of [...this.waits.get(victim)!]) {
+        this.unwait(wait);
+        wait.abort(
+          new errors.ErrorAsyncLocksMonitorDeadlock(
+            `Owner ${data.owner} is deadlocked waiting for ${data.type} on ${data.key}`,
+            { data },
+          ),
+        );
+      }
+    }
+    return wait;
+  }
+
+  public unwait(wait: DeadlockWait): void {
+    const waits = this.waits.get(wait.owner);
+    if (waits == null) return;
+    waits.delete(wait);
+    if (waits.size === 0) this.waits.delete(wait.owner);
+  }
+
+  /**
+   * Identifier of the owner, which is its registration order.
+   * Deadlock error data refers to owners by their identifier.
+   */
+  public getId(owner: object): number | undefined {
+    return this.ages.get(owner);
+  }
+
+  /**
+   * Owners that are blocking `owner` from making progress.
+   */
+  public blockers(owner: object): Set<object> {
+    return new Set(this.edges(owner).map(({ blocker }) => blocker));
+  }
+
+  /**
+   * Outgoing edges of `owner`, one for each wait and blocker pair.
+   */
+  protected edges(owner: object): Array<WaitEdge> {
+    const edges: Array<WaitEdge> = [];
+    const waits = this.waits.get(owner);
+    if (waits == null) return edges;
+    for (const wait of waits) {
+      const holders = this.holdsByKey.get(wait.key);
+      if (holders != null) {
+        for (const [holder, holdType] of holders) {
+          if (holder === owner) continue;
+          if (wait.type !== 'read' || holdType === 'write') {
+            edges.push({
+              wait,
+              blocker: holder,
+              blockerType: holdType,
+              blockerStatus: 'held',
+            });
+          }
+        }
+      }
+      // Upgrades convert the held read lock in place, so they never queue
+      // behind other waiters, they only wait for the other holders to drain,
+      // which includes any other holder of the upgradable lock
+      if (wait.type === 'upgrade') continue;
+      // Owners that were already queued on the key are ahead of this wait
+      // Readers queue behind upgrades, and behind writers if the lock is
+      // writer preferring, while writers queue behind writers
+      for (const [waiter, waits_] of this.waits) {
+        if (waiter === owner) continue;
+        for (const wait_ of waits_) {
+          if (wait_.key !== wait.key || wait_.seq > wait.seq) continue;
+          if (
+            (wait.type === 'read' &&
+              (wait_.type === 'upgrade' ||
+                (wait_.type === 'write' && wait.writerPreferring))) ||
+            (wait.type === 'write' && wait_.type === 'write')
+          ) {
+            edges.push({
+              wait,
+              blocker: waiter,
+              blockerType: wait_.type,
+              blockerStatus: 'queued',
+            });
+          }
+        }
+      }
+    }
+    return edges;
+  }
+
+  /**
+   * Finds a cycle of waiting owners starting and ending at `owner`.
+   * The cycle is the sequence of edges, each edge is from the blocker of
+   * the previous edge.
+   */
+  protected findCycle(owner: object): Array<WaitEdge> | undefined {
+    const visited: Set<object> = new Set();
+    const path: Array<WaitEdge> = [];
+    const visit = (node: object): boolean => {
+      visited.add(node);
+      for (const edge of this.edges(node)) {
+        path.push(edge);
+        if (edge.blocker === owner) return true;
+        if (!visited.has(edge.blocker) && visit(edge.blocker)) return true;
+        path.pop();
+      }
+      return false;
+    };
+    return visit(owner) ? path : undefined;
+  }
+
+  /**
+   * Selects the index of the victim in the cycle of owners.
+   * Ties are broken by selecting the youngest owner.
+   */
+  protected selectVictim(cycle: Array<object>): number {
+    const age = (owner: object) => this.ages.get(owner)!;
+    const locksHeld = (owner: object) =>
+      this.holdsByOwner.get(owner)?.size ?? 0;
+    const priority = (owner: object) =>
+      Math.min(...[...this.waits.get(owner)!].map((wait) => wait.priority));
+    let victimIndex = 0;
+    for (let i = 1; i < cycle.length; i++) {
+      const owner = cycle[i];
+      const victim = cycle[victimIndex];
+      let order: number;
+      switch (this.victimPolicy) {
+        case 'youngest':
+          order = 0;
+          break;
+        case 'fewestLocks':
+          order = locksHeld(owner) - locksHeld(victim);
+          break;
+        case 'priority':
+          order = priority(owner) - priority(victim);
+          break;
+      }
+      if (order < 0 || (order === 0 && age(owner) > age(victim))) {
+        victimIndex = i;
+      }
+    }
+    return victimIndex;
+  }
+}
+
+export default WaitForGraph;
@@ -0,0 +1,65 @@
+import type { ContextTimedInput } from './types.js';
+import { PromiseCancellable } from '@matrixai/async-cancellable';
+import * as utils from './utils.js';
+import * as errors from './errors.js';
+
+/**
+ * Tracks in-flight operations so they can be drained.
+ * Each operation is added before it starts and is done when it settles,
+ * waiters resolve whenever the counter reaches 0.
+ */
+class WaitGroup {
+  protected _count: number = 0;
+  protected waiters: utils.Waiters = new utils.Waiters(WaitGroup.name);
+
+  public get count(): number {
+    return this._count;
+  }
+
+  /**
+   * Adds `n` to the counter, which can be negative.
+   * Throws `ErrorAsyncLocksWaitGroupNegative` without changing the counter
+   * if it would go negative.
+   */
+  public add(n: number = 1): void {
+    if (this._count + n < 0) {
+      throw new errors.ErrorAsyncLocksWaitGroupNegative(
+        `WaitGroup counter ${this._count} cannot be added with ${n}`,
+      );
+    }
+    this._count += n;
+    if (this._count > 0) return;
+    this.waiters.wakeAll();
+  }
+
+  public done(): void {
+    this.add(-1);
+  }
+
+  /**
+   * Tracks a promise or the result of calling a function.
+   * The counter is decremented when it settles, whether it resolves or rejects.
+   */
+  public async wrap<T>(
+    f: PromiseLike<T> | (() => T | PromiseLike<T>),
+  ): Promise<T> {
+    this.add();
+    try {
+      return await (typeof f === 'function' ? f() : f);
+    } finally {
+      this.done();
+    }
+  }
+
+  /**
+   * Waits until the counter reaches 0.
+   */
+  public wait(ctx?: Partial<ContextTimedInput>): PromiseCancellable<void> {
+    if (this._count === 0) {
+      return PromiseCancellable.resolve();
+    }
+    return this.waiters.wait(ctx);
+  }
+}
+
+export default WaitGroup;
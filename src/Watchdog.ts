@@ -0,0 +1,105 @@
+import type { ResourceRelease } from '@matrixai/resources';
+import type { WatchdogHold } from './types.js';
+
+/**
+ * Watchdog detecting leaked and long held locks.
+ * Locks constructed with a watchdog record the acquisition stack trace of
+ * each hold. Holds exceeding `holdThreshold` milliseconds are reported once
+ * to `onLongHold`. Release functions that are garbage collected without
+ * being called are reported to `onLeak`, these locks can never be released.
+ * A watchdog can be shared between locks.
+ */
+class Watchdog {
+  public readonly holdThreshold: number;
+
+  protected onLongHold?: (hold: WatchdogHold) => void;
+  protected onLeak?: (hold: WatchdogHold) => void;
+  protected _holds: Set<WatchdogHold> = new Set();
+  protected timers: Map<WatchdogHold, ReturnType<typeof setTimeout>> =
+    new Map();
+  protected registry: FinalizationRegistry<WatchdogHold>;
+
+  public constructor({
+    holdThreshold = Infinity,
+    onLongHold,
+    onLeak,
+  }: {
+    holdThreshold?: number;
+    onLongHold?: (hold: WatchdogHold) => void;
+    onLeak?: (hold: WatchdogHold) => void;
+  } = {}) {
+    if (holdThreshold < 0) {
+      throw new RangeError(
+        'Watchdog must be constructed with `holdThreshold` >= 0',
+      );
+    }
+    this.holdThreshold = holdThreshold;
+    this.onLongHold = onLongHold;
+    this.onLeak = onLeak;
+    this.registry = new FinalizationRegistry((hold) => {
+      this.unwatch(hold);
+      this.onLeak?.(hold);
+    });
+  }
+
+  /**
+   * Holds that have not been released.
+   */
+  public get holds(): ReadonlySet<WatchdogHold> {
+    return this._holds;
+  }
+
+  /**
+   * Stack trace of the caller, used as the acquisition stack trace.
+   */
+  public trace(): string {
+    const trace: { stack?: string } = {};
+    Error.captureStackTrace(trace, this.trace);
+    // Remove the `Error` header
+    return trace.stack!.slice(trace.stack!.indexOf('\n') + 1);
+  }
+
+  /**
+   * Watches the hold of a release function.
+   * Returns the release function that must be used instead.
+   */
+  public watch(
+    release: ResourceRelease,
+    data: Omit<WatchdogHold, 'acquired'>,
+  ): ResourceRelease {
+    const hold: WatchdogHold = { ...data, acquired: performance.now() };
+    this._holds.add(hold);
+    if (this.holdThreshold !== Infinity) {
+      // The timer must not reference the release function
+      const timer = setTimeout(() => {
+        this.timers.delete(hold);
+        this.onLongHold?.(hold);
+      }, this.holdThreshold);
+      // Watching does not keep the process alive
+      timer.unref?.();
+      this.timers.set(hold, timer);
+    }
+    let released = false;
+    const release_ = async (e?: Error) => {
+      if (!released) {
+        released = true;
+        this.registry.unregister(hold);
+        this.unwatch(hold);
+      }
+      await release(e);
+    };
+    this.registry.register(release_, hold, hold);
+    return release_;
+  }
+
+  protected unwatch(hold: WatchdogHold): void {
+    this._holds.delete(hold);
+    const timer = this.timers.get(hold);
+    if (timer != null) {
+      clearTimeout(timer);
+      this.timers.delete(hold);
+    }
+  }
+}
+
+export default Watchdog;
@@ -8,6 +8,23 @@ class ErrorAsyncLocksTimeout<T> extends ErrorAsyncLocks<T> {
   static description = 'Async locks timeout';
 }
 
+/**
+ * Waiters are rejected with this exception when the wait queue is bounded
+ * and full. Callers are expected to shed the load.
+ */
+class ErrorAsyncLocksQueueFull<T> extends ErrorAsyncLocks<T> {
+  static description = 'Async locks queue is full';
+}
+
+/**
+ * The signal of a lock lease is aborted with this exception when the lease
+ * expires, at which point the lock has been forcibly released. Leases cannot
+ * be renewed once they have expired or been released.
+ */
+class ErrorAsyncLocksLeaseExpired<T> extends ErrorAsyncLocks<T> {
+  static description = 'Lock lease has expired';
+}
+
 class ErrorAsyncLocksLockBoxConflict<T> extends ErrorAsyncLocks<T> {
   static description =
     'LockBox cannot lock same ID with different Lockable classes';
@@ -15,24 +32,77 @@ class ErrorAsyncLocksLockBoxConflict<T> extends ErrorAsyncLocks<T> {
 
 /**
  * If you get this exception, this means within the same `Monitor` instance,
- * you tried to lock a read on a key that is already locked for write, or
- * you tried to lock a write on a key that is already locked for read. This
- * is not supported because to do so would imply a lock upgrade from read to
- * write or from write to read.
+ * you tried to lock a read on a key that is already locked for write without
+ * having been upgraded from read, or you tried to change the lock type of a
+ * key that is still being acquired or with `Monitor.tryLock`. Only keys that
+ * were upgraded from read to write can be downgraded back to read, keys locked
+ * for write directly are held through the `LockBox`, and their write lock
+ * cannot be converted in place.
  */
 class ErrorAsyncLocksMonitorLockType<T> extends ErrorAsyncLocks<T> {
-  static description =
-    'Monitor does not support upgrading or downgrading the lock type';
+  static description = 'Monitor cannot change the lock type';
 }
 
+/**
+ * The `data` of this exception describes the deadlock cycle, see
+ * `DeadlockData`. Use `utils.renderDeadlock` to render it as a chain.
+ */
 class ErrorAsyncLocksMonitorDeadlock<T> extends ErrorAsyncLocks<T> {
   static description = 'Monitor has met a potential deadlock';
 }
 
+class ErrorAsyncLocksRWLockUpgrade<T> extends ErrorAsyncLocks<T> {
+  static description = 'Read write lock cannot be upgraded or downgraded';
+}
+
+/**
+ * Only the holder of the lock of a `Condition` can wait on it, and the lock
+ * must have been locked through the condition.
+ */
+class ErrorAsyncLocksConditionNotHeld<T> extends ErrorAsyncLocks<T> {
+  static description = 'Condition can only be waited on while holding its lock';
+}
+
+class ErrorAsyncLocksReentrantLockOwner<T> extends ErrorAsyncLocks<T> {
+  static description = 'ReentrantLock can only be released by its owner';
+}
+
+/**
+ * Barriers are broken when a waiter times out or is aborted, or when the
+ * action of a `CyclicBarrier` throws. Broken barriers reject all current and
+ * future waiters until they are reset.
+ */
+class ErrorAsyncLocksBarrierBroken<T> extends ErrorAsyncLocks<T> {
+  static description = 'Barrier is broken';
+}
+
+/**
+ * A `Phaser` cannot have more arrivals in a phase than it has registered
+ * parties.
+ */
+class ErrorAsyncLocksPhaserParties<T> extends ErrorAsyncLocks<T> {
+  static description = 'Phaser has no unarrived parties';
+}
+
+/**
+ * Every `WaitGroup.done` must be matched by an earlier `WaitGroup.add`.
+ */
+class ErrorAsyncLocksWaitGroupNegative<T> extends ErrorAsyncLocks<T> {
+  static description = 'WaitGroup counter cannot be negative';
+}
+
 export {
   ErrorAsyncLocks,
   ErrorAsyncLocksTimeout,
+  ErrorAsyncLocksQueueFull,
+  ErrorAsyncLocksLeaseExpired,
   ErrorAsyncLocksLockBoxConflict,
   ErrorAsyncLocksMonitorLockType,
   ErrorAsyncLocksMonitorDeadlock,
+  ErrorAsyncLocksRWLockUpgrade,
+  ErrorAsyncLocksReentrantLockOwner,
+  ErrorAsyncLocksConditionNotHeld,
+  ErrorAsyncLocksBarrierBroken,
+  ErrorAsyncLocksPhaserParties,
+  ErrorAsyncLocksWaitGroupNegative,
 };
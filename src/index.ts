@@ -1,10 +1,20 @@
 export { default as Lock } from './Lock.js';
+export { default as ReentrantLock } from './ReentrantLock.js';
 export { default as RWLockReader } from './RWLockReader.js';
 export { default as RWLockWriter } from './RWLockWriter.js';
 export { default as LockBox } from './LockBox.js';
 export { default as Barrier } from './Barrier.js';
+export { default as CyclicBarrier } from './CyclicBarrier.js';
+export { default as Phaser } from './Phaser.js';
+export { default as CountDownLatch } from './CountDownLatch.js';
+export { default as ManualResetEvent } from './ManualResetEvent.js';
+export { default as AutoResetEvent } from './AutoResetEvent.js';
+export { default as WaitGroup } from './WaitGroup.js';
 export { default as Semaphore } from './Semaphore.js';
 export { default as Monitor } from './Monitor.js';
+export { default as Condition } from './Condition.js';
+export { default as WaitForGraph } from './WaitForGraph.js';
+export { default as Watchdog } from './Watchdog.js';
 export * as utils from './utils.js';
 export * as errors from './errors.js';
 export * from './types.js';
@@ -0,0 +1,135 @@
+/**
+ * Waiting queue
+ * Iteration does not dequeue and its order is only guaranteed to be the
+ * dequeue order for `FIFOQueue`
+ */
+interface Queue<T> extends Iterable<T> {
+  readonly length: number;
+  push(item: T): void;
+  peek(): T | undefined;
+  shift(): T | undefined;
+}
+
+/**
+ * First in first out queue backed by a ring buffer
+ * Enqueuing and dequeuing are amortised O(1)
+ */
+class FIFOQueue<T> implements Queue<T> {
+  protected buffer: Array<T | undefined> = new Array(16);
+  protected head: number = 0;
+  protected _length: number = 0;
+
+  public get length(): number {
+    return this._length;
+  }
+
+  public push(item: T): void {
+    if (this._length === this.buffer.length) {
+      // Double the capacity while unwrapping the ring
+      const buffer = new Array(this.buffer.length * 2);
+      for (let i = 0; i < this._length; i++) {
+        buffer[i] = this.buffer[(this.head + i) % this.buffer.length];
+      }
+      this.buffer = buffer;
+      this.head = 0;
+    }
+    this.buffer[(this.head + this._length) % this.buffer.length] = item;
+    this._length++;
+  }
+
+  public peek(): T | undefined {
+    if (this._length === 0) return;
+    return this.buffer[this.head];
+  }
+
+  public shift(): T | undefined {
+    if (this._length === 0) return;
+    const item = this.buffer[this.head];
+    // Release the reference for garbage collection
+    this.buffer[this.head] = undefined;
+    this.head = (this.head + 1) % this.buffer.length;
+    this._length--;
+    return item;
+  }
+
+  public *[Symbol.iterator](): IterableIterator<T> {
+    for (let i = 0; i < this._length; i++) {
+      yield this.buffer[(this.head + i) % this.buffer.length]!;
+    }
+  }
+}
+
+/**
+ * Priority queue backed by a binary heap
+ * The item that is ordered first by `compare` is dequeued first
+ * Enqueuing and dequeuing are O(log n)
+ */
+class HeapQueue<T> implements Queue<T> {
+  protected heap: Array<T> = [];
+  protected compare: (a: T, b: T) => number;
+
+  public constructor(compare: (a: T, b: T) => number) {
+    this.compare = compare;
+  }
+
+  public get length(): number {
+    return this.heap.length;
+  }
+
+  public push(item: T): void {
+    this.heap.push(item);
+    this.siftUp(this.heap.length - 1);
+  }
+
+  public peek(): T | undefined {
+    return this.heap[0];
+  }
+
+  public shift(): T | undefined {
+    if (this.heap.length === 0) return;
+    const item = this.heap[0];
+    const last = this.heap.pop()!;
+    if (this.heap.length > 0) {
+      this.heap[0] = last;
+      this.siftDown(0);
+    }
+    return item;
+  }
+
+  public [Symbol.iterator](): IterableIterator<T> {
+    return this.heap[Symbol.iterator]();
+  }
+
+  protected siftUp(i: number): void {
+    const item = this.heap[i];
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.compare(item, this.heap[parent]) >= 0) break;
+      this.heap[i] = this.heap[parent];
+      i = parent;
+    }
+    this.heap[i] = item;
+  }
+
+  protected siftDown(i: number): void {
+    const item = this.heap[i];
+    const length = this.heap.length;
+    while (true) {
+      let child = 2 * i + 1;
+      if (child >= length) break;
+      if (
+        child + 1 < length &&
+        this.compare(this.heap[child + 1], this.heap[child]) < 0
+      ) {
+        child++;
+      }
+      if (this.compare(this.heap[child], item) >= 0) break;
+      this.heap[i] = this.heap[child];
+      i = child;
+    }
+    this.heap[i] = item;
+  }
+}
+
+export type { Queue };
+export { FIFOQueue, HeapQueue };
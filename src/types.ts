@@ -2,6 +2,16 @@ import type { PromiseCancellable } from '@matrixai/async-cancellable';
 import type { ResourceRelease } from '@matrixai/resources';
 import type { Timer } from '@matrixai/timer';
 
+declare global {
+  /**
+   * Explicit resource management symbols, these are typed by TypeScript 5.2+
+   */
+  interface SymbolConstructor {
+    readonly dispose: unique symbol;
+    readonly asyncDispose: unique symbol;
+  }
+}
+
 /**
  * Plain data dictionary
  */
@@ -23,9 +33,24 @@ type ResourceAcquireCancellable<Resource> = (
   resources?: readonly any[],
 ) => PromiseCancellable<readonly [ResourceRelease, Resource?]>;
 
+/**
+ * Release function carrying the fencing token of its acquisition
+ * Tokens of a lock increase monotonically with each acquisition, so stores
+ * can reject writes carrying an older token than the latest one they have seen
+ */
+type ResourceReleaseFenced = ResourceRelease & { readonly token: number };
+
+/**
+ * Derived from `ResourceAcquireCancellable`, the release is fenced too
+ */
+type ResourceAcquireFenced<Resource> = (
+  resources?: readonly any[],
+) => PromiseCancellable<readonly [ResourceReleaseFenced, Resource?]>;
+
 interface Lockable {
   count: number;
   lock(...params: Array<unknown>): ResourceAcquireCancellable<Lockable>;
+  tryLock(...params: Array<unknown>): ResourceRelease | undefined;
   isLocked(...params: Array<unknown>): boolean;
   waitForUnlock(...params: Array<unknown>): PromiseCancellable<void>;
   withF<T>(...params: Array<unknown>): Promise<T>;
@@ -34,6 +59,27 @@ interface Lockable {
   ): AsyncGenerator<T, TReturn, TNext>;
 }
 
+/**
+ * Acquired lock that is released when it is disposed
+ * Use with `await using guard = await lock.acquire()`
+ * Releasing and disposing are idempotent
+ * The `token` is the fencing token of the acquisition if it is fenced
+ */
+type LockGuard<L extends Lockable = Lockable> = {
+  lock: L;
+  release: ResourceRelease;
+  token?: number;
+  [Symbol.asyncDispose](): Promise<void>;
+};
+
+/**
+ * Acquired lock whose release completes synchronously
+ * Can also be used with `using guard = await lock.acquire()`
+ */
+type LockGuardSync<L extends Lockable = Lockable> = LockGuard<L> & {
+  [Symbol.dispose](): void;
+};
+
 type LockRequest<L extends Lockable = Lockable> = [
   key: string,
   lockConstructor: new () => L,
@@ -42,7 +88,7 @@ type LockRequest<L extends Lockable = Lockable> = [
 
 type LockAcquireCancellable<L extends Lockable = Lockable> = [
   key: string,
-  lockAcquire: ResourceAcquireCancellable<L>,
+  lockAcquire: ResourceAcquireFenced<L>,
   ...lockingParams: Parameters<L['lock']>,
 ];
 
@@ -53,8 +99,178 @@ type LockAcquired<L extends Lockable = Lockable> = [
 ];
 
 type RWLockRequest =
-  | [key: string, type?: 'read' | 'write', ctx?: Partial<ContextTimedInput>]
-  | [key: string, ctx?: Partial<ContextTimedInput>];
+  | [key: string, type?: 'read' | 'write', ctx?: Partial<ContextLockInput>]
+  | [key: string, ctx?: Partial<ContextLockInput>];
+
+/**
+ * Token identifying the owner of a re-entrant lock
+ */
+type LockOwner = string | symbol;
+
+/**
+ * Policy for selecting the participant of a deadlock cycle to abort
+ * `youngest` aborts the owner that was registered last
+ * `fewestLocks` aborts the owner holding the fewest keys
+ * `priority` aborts the owner with the lowest priority
+ */
+type DeadlockVictimPolicy = 'youngest' | 'fewestLocks' | 'priority';
+
+/**
+ * Pending acquisition registered in a `WaitForGraph`
+ */
+type DeadlockWait = {
+  owner: object;
+  key: string;
+  type: 'read' | 'write' | 'upgrade';
+  seq: number;
+  priority: number;
+  writerPreferring: boolean;
+  abort: (reason: Error) => void;
+};
+
+/**
+ * Edge of a deadlock cycle
+ * The `owner` waiting for `type` on `key` is blocked by the `blocker`,
+ * which either holds the key or is queued ahead of the `owner` on the key
+ * Owners are identified by their `WaitForGraph` identifier
+ */
+type DeadlockEdge = {
+  owner: number;
+  key: string;
+  type: 'read' | 'write' | 'upgrade';
+  blocker: number;
+  blockerType: 'read' | 'write' | 'upgrade';
+  blockerStatus: 'held' | 'queued';
+};
+
+/**
+ * Data of `ErrorAsyncLocksMonitorDeadlock`
+ * The aborted `owner` was waiting for `type` on `key` while holding `held`
+ * The `cycle` starts from the aborted owner and ends back at it
+ */
+type DeadlockData = {
+  owner: number;
+  key: string;
+  type: 'read' | 'write' | 'upgrade';
+  held: Array<[key: string, type: 'read' | 'write']>;
+  cycle: Array<DeadlockEdge>;
+};
+
+/**
+ * Data of `ErrorAsyncLocksTimeout`
+ * The `lock` is the kind of lock that timed out
+ * The `key` is only set for locks acquired through `LockBox` or `Monitor`
+ * The `queuePosition` is the number of waiters ahead when the wait timed out
+ * The `holderCount` is the number of holders when the wait timed out
+ */
+type TimeoutData = {
+  lock: string;
+  key?: string;
+  weight?: number;
+  type?: 'read' | 'write' | 'upgradable' | 'upgrade';
+  elapsed: number;
+  queuePosition?: number;
+  holderCount: number;
+};
+
+/**
+ * Lease of a lock that is forcibly released when it expires
+ * The `token` is the fencing token of the lease
+ * The `signal` is aborted when the lease expires
+ * Use `renew` to extend the lease by `duration` while the work continues
+ */
+type LockLease<L extends Lockable = Lockable> = {
+  lock: L;
+  token: number;
+  signal: AbortSignal;
+  renew(duration?: number): void;
+};
+
+/**
+ * Upgradable lock held on a read write lock
+ * `upgrade` converts the hold to a write lock and `downgrade` converts it back
+ * Both reject with `ErrorAsyncLocksRWLockUpgrade` after the hold is released
+ */
+type RWLockUpgradable<L extends Lockable = Lockable> = {
+  lock: L;
+  upgrade(ctx?: Partial<ContextLockInput>): PromiseCancellable<void>;
+  downgrade(): Promise<void>;
+};
+
+/**
+ * Lifecycle event of a lock acquisition
+ * `queued` - the acquisition has started
+ * `acquired` - the acquisition resolved after `waitDuration`
+ * `released` - the acquisition was released after `holdDuration`
+ * `aborted` - the acquisition rejected after `waitDuration` with `reason`
+ * `timedout` - the acquisition timed out after `waitDuration` with `reason`
+ * Successful tries are `queued` and `acquired` without waiting
+ * The `key` is only set for locks acquired through `LockBox` or `Monitor`
+ */
+type LockEvent = {
+  event: 'queued' | 'acquired' | 'released' | 'aborted' | 'timedout';
+  lock: string;
+  key?: string;
+  type?: 'read' | 'write' | 'upgradable';
+  weight?: number;
+  waitDuration?: number;
+  holdDuration?: number;
+  reason?: unknown;
+};
+
+/**
+ * Instrumentation sink receiving the lifecycle events of locks
+ */
+type LockInstrument = (event: LockEvent) => void;
+
+/**
+ * Hold of a lock watched by a `Watchdog`
+ * The `stack` is the stack trace of the acquisition
+ * The `acquired` time is from `performance.now()`
+ */
+type WatchdogHold = {
+  lock: string;
+  key?: string;
+  type?: 'read' | 'write' | 'upgradable';
+  weight?: number;
+  stack: string;
+  acquired: number;
+};
+
+/**
+ * Percentiles of durations in milliseconds
+ */
+type LockStatsPercentiles = {
+  p50: number;
+  p90: number;
+  p99: number;
+  max: number;
+};
+
+/**
+ * Contention statistics of a lock
+ * The `queueLength` is the number of acquisitions that have not settled
+ */
+type LockStatsData = {
+  acquisitions: number;
+  timeouts: number;
+  aborts: number;
+  queueLength: number;
+  peakQueueLength: number;
+  waitTime: LockStatsPercentiles;
+  holdTime: LockStatsPercentiles;
+};
+
+/**
+ * Scheduling policy of `Semaphore` waiters
+ * `fifo` - waiters are dequeued in order, a blocked waiter blocks all waiters
+ * behind it
+ * `smallestFirst` - smaller weights are dequeued first, but a waiter stops
+ * being overtaken once `starvationBound` waiters were dequeued while it waits
+ * `reserve` - a blocked waiter reserves the capacity that is released while
+ * it is blocked, other waiters may only overtake it with the rest
+ */
+type SemaphoreScheduling = 'fifo' | 'smallestFirst' | 'reserve';
 
 type ContextTimed = {
   signal: AbortSignal;
@@ -66,15 +282,43 @@ type ContextTimedInput = {
   timer: Timer | number;
 };
 
+/**
+ * Context of a lock acquisition
+ * Waiters with a higher `priority` are dequeued first, the default is 0
+ * Waiters with equal priority are dequeued in FIFO order
+ */
+type ContextLockInput = ContextTimedInput & {
+  priority: number;
+};
+
 export type {
   POJO,
   PromiseDeconstructed,
   ResourceAcquireCancellable,
+  ResourceReleaseFenced,
+  ResourceAcquireFenced,
   Lockable,
+  LockGuard,
+  LockGuardSync,
+  LockLease,
+  RWLockUpgradable,
   LockRequest,
   LockAcquireCancellable,
   LockAcquired,
   RWLockRequest,
+  LockOwner,
+  DeadlockVictimPolicy,
+  DeadlockWait,
+  DeadlockEdge,
+  DeadlockData,
+  TimeoutData,
+  LockEvent,
+  LockInstrument,
+  LockStatsPercentiles,
+  LockStatsData,
+  WatchdogHold,
+  SemaphoreScheduling,
   ContextTimed,
   ContextTimedInput,
+  ContextLockInput,
 };
@@ -1,10 +1,21 @@
+import type { ResourceRelease } from '@matrixai/resources';
 import type {
+  POJO,
   PromiseDeconstructed,
+  ResourceReleaseFenced,
+  Lockable,
+  LockGuard,
+  LockGuardSync,
+  LockEvent,
+  LockInstrument,
+  DeadlockData,
+  TimeoutData,
   ContextTimed,
   ContextTimedInput,
 } from './types.js';
 import { PromiseCancellable } from '@matrixai/async-cancellable';
 import { Timer } from '@matrixai/timer';
+import * as errors from './errors.js';
 
 /**
  * Deconstructed promise
@@ -22,13 +33,25 @@ function promise<T = void>(): PromiseDeconstructed<T> {
   };
 }
 
+/**
+ * The timeout error is constructed when the timer expires, its `data`
+ * contains the `elapsed` milliseconds and the result of `errorTimeoutData`.
+ * If the signal is inherited and is aborted with a timeout error that does
+ * not yet describe a lock, then the result of `errorTimeoutData` is merged
+ * into the error's `data` without overwriting the data of the outer context.
+ * This allows `LockBox` to report the key while the lock reports the rest.
+ */
 function setupTimedCancellable<C extends ContextTimed, P extends Array<any>, R>(
   f: (ctx: C, ...params: P) => PromiseLike<R>,
   lazy: boolean,
   delay: number,
-  errorTimeoutConstructor: new () => Error,
+  errorTimeoutConstructor: new (
+    message?: string,
+    options?: { data?: POJO },
+  ) => Error & { data: POJO },
   ctx: Partial<ContextTimedInput>,
   args: P,
+  errorTimeoutData?: () => Partial<TimeoutData>,
 ): PromiseCancellable<R> {
   // There are 3 properties of timer and signal:
   //
@@ -51,15 +74,31 @@ function setupTimedCancellable<C extends ContextTimed, P extends Array<any>, R>(
   // wrapper will not re-setup this property A relationship.
   let abortController: AbortController;
   let teardownContext: () => void;
+  const started = performance.now();
+  const timeoutError = () =>
+    new errorTimeoutConstructor(undefined, {
+      data: {
+        ...errorTimeoutData?.(),
+        elapsed: performance.now() - started,
+      },
+    });
+  const mergeTimeoutData = (reason: unknown) => {
+    if (errorTimeoutData == null) return;
+    if (!(reason instanceof errorTimeoutConstructor)) return;
+    // Only the outermost lock describes the timeout
+    if (reason.data.lock !== undefined) return;
+    for (const [key, value] of Object.entries(errorTimeoutData())) {
+      if (reason.data[key] === undefined) reason.data[key] = value;
+    }
+  };
   if (
     (ctx.timer === undefined || typeof ctx.timer === 'number') &&
     ctx.signal === undefined
   ) {
     abortController = new AbortController();
-    const e = new errorTimeoutConstructor();
     // Property A
     const timer = new Timer(
-      () => void abortController.abort(e),
+      () => void abortController.abort(timeoutError()),
       ctx.timer ?? delay,
     );
     abortController.signal.addEventListener('abort', () => {
@@ -77,16 +116,16 @@ function setupTimedCancellable<C extends ContextTimed, P extends Array<any>, R>(
     ctx.signal instanceof AbortSignal
   ) {
     abortController = new AbortController();
-    const e = new errorTimeoutConstructor();
     // Property A
     const timer = new Timer(
-      () => void abortController.abort(e),
+      () => void abortController.abort(timeoutError()),
       ctx.timer ?? delay,
     );
     const signalUpstream = ctx.signal;
     const signalHandler = () => {
       // Property B
       timer.cancel();
+      mergeTimeoutData(signalUpstream.reason);
       abortController.abort(signalUpstream.reason);
     };
     // If already aborted, abort target and cancel the timer
@@ -107,7 +146,6 @@ function setupTimedCancellable<C extends ContextTimed, P extends Array<any>, R>(
     };
   } else if (ctx.timer instanceof Timer && ctx.signal === undefined) {
     abortController = new AbortController();
-    const e = new errorTimeoutConstructor();
     let finished = false;
     // If the timer resolves, then abort the target function
     void ctx.timer.then(
@@ -116,7 +154,7 @@ function setupTimedCancellable<C extends ContextTimed, P extends Array<any>, R>(
         // then don't bother aborting the target function
         if (!finished && !s.aborted) {
           // Property A
-          abortController.abort(e);
+          abortController.abort(timeoutError());
         }
         return r;
       },
@@ -137,6 +175,7 @@ function setupTimedCancellable<C extends ContextTimed, P extends Array<any>, R>(
     abortController = new AbortController();
     const signalUpstream = ctx.signal!;
     const signalHandler = () => {
+      mergeTimeoutData(signalUpstream.reason);
       abortController.abort(signalUpstream.reason);
     };
     if (signalUpstream.aborted) {
@@ -174,4 +213,252 @@ function setupTimedCancellable<C extends ContextTimed, P extends Array<any>, R>(
   }, abortController);
 }
 
-export { promise, setupTimedCancellable };
+/**
+ * Waiters of a synchronisation primitive, they are woken in order.
+ * Waiters that time out, are aborted or cancelled are removed without being
+ * woken. Timeout errors report `lock` as the lock.
+ */
+class Waiters<T = void> {
+  protected waiters: Set<PromiseDeconstructed<T>> = new Set();
+  protected lock: string;
+
+  public constructor(lock: string) {
+    this.lock = lock;
+  }
+
+  public get size(): number {
+    return this.waiters.size;
+  }
+
+  public wait(ctx?: Partial<ContextTimedInput>): PromiseCancellable<T> {
+    ctx = ctx != null ? { ...ctx } : {};
+    return setupTimedCancellable(
+      (ctx: ContextTimed) => {
+        const waiter = promise<T>();
+        if (ctx.signal.aborted) {
+          waiter.rejectP(ctx.signal.reason);
+          return waiter.p;
+        }
+        const abortHandler = () => {
+          this.waiters.delete(waiter);
+          waiter.rejectP(ctx.signal.reason);
+        };
+        const teardown = () => {
+          ctx.signal.removeEventListener('abort', abortHandler);
+        };
+        ctx.signal.addEventListener('abort', abortHandler, { once: true });
+        void waiter.p.then(teardown, teardown);
+        this.waiters.add(waiter);
+        return waiter.p;
+      },
+      true,
+      Infinity,
+      errors.ErrorAsyncLocksTimeout,
+      ctx,
+      [],
+      () => ({ lock: this.lock }),
+    );
+  }
+
+  /**
+   * Wakes the first waiter.
+   * Returns false if there are no waiters.
+   */
+  public wakeOne(value: T): boolean {
+    const waiter = this.waiters.values().next().value;
+    if (waiter == null) return false;
+    this.waiters.delete(waiter);
+    waiter.resolveP(value);
+    return true;
+  }
+
+  public wakeAll(value: T): void {
+    const waiters = [...this.waiters];
+    this.waiters.clear();
+    for (const waiter of waiters) {
+      waiter.resolveP(value);
+    }
+  }
+}
+
+/**
+ * Renders the data of `ErrorAsyncLocksMonitorDeadlock` as a chain of waits.
+ * The first line describes the aborted owner, each subsequent line is an
+ * edge of the cycle, starting and ending at the aborted owner.
+ */
+function renderDeadlock(data: DeadlockData): string {
+  const held =
+    data.held.length > 0
+      ? data.held.map(([key, type]) => `${type} on ${key}`).join(', ')
+      : 'nothing';
+  const lines = [
+    `owner ${data.owner} was aborted waiting for ${data.type} on ${data.key} while holding ${held}`,
+  ];
+  for (const [i, edge] of data.cycle.entries()) {
+    const waiting = `owner ${edge.owner} waits for ${edge.type} on ${edge.key}`;
+    const blocking = `${edge.blockerStatus} for ${edge.blockerType} by owner ${edge.blocker}`;
+    lines.push(`${i > 0 ? '-> ' : ''}${waiting} ${blocking}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Attaches the fencing `token` to the release function.
+ */
+function fence(release: ResourceRelease, token: number): ResourceReleaseFenced {
+  return Object.assign(release, { token });
+}
+
+/**
+ * Attaches the fencing token of `lockRelease`, if any, to its wrapper.
+ */
+function refence(
+  release: ResourceRelease,
+  lockRelease: ResourceRelease,
+): ResourceRelease {
+  const token = (lockRelease as Partial<ResourceReleaseFenced>).token;
+  return token != null ? fence(release, token) : release;
+}
+
+/**
+ * Resolves the acquisition of `lock` to a guard that releases it when it is
+ * disposed. The guard can only be disposed synchronously if `sync` is true,
+ * which is only safe when the release does not await anything.
+ */
+function lockGuard<L extends Lockable>(
+  acquireP: PromiseCancellable<readonly [ResourceRelease, unknown?]>,
+  lock: L,
+): PromiseCancellable<LockGuard<L>>;
+function lockGuard<L extends Lockable>(
+  acquireP: PromiseCancellable<readonly [ResourceRelease, unknown?]>,
+  lock: L,
+  sync: true,
+): PromiseCancellable<LockGuardSync<L>>;
+function lockGuard<L extends Lockable>(
+  acquireP: PromiseCancellable<readonly [ResourceRelease, unknown?]>,
+  lock: L,
+  sync: boolean = false,
+): PromiseCancellable<LockGuard<L> | LockGuardSync<L>> {
+  return acquireP.then(
+    ([lockRelease]) => {
+      let released = false;
+      const release = async () => {
+        if (released) return;
+        released = true;
+        await lockRelease();
+      };
+      const guard: LockGuard<L> = {
+        lock,
+        release,
+        token: (lockRelease as Partial<ResourceReleaseFenced>).token,
+        [Symbol.asyncDispose]: release,
+      };
+      if (!sync) return guard;
+      return {
+        ...guard,
+        [Symbol.dispose]: () => void release(),
+      };
+    },
+    undefined,
+    (signal) => {
+      // Propagate cancellation to `acquireP`
+      signal.addEventListener(
+        'abort',
+        () => {
+          acquireP.cancel(signal.reason);
+        },
+        { once: true },
+      );
+    },
+  );
+}
+
+/**
+ * Emits the lifecycle events of the acquisition `acquireP` to `instrument`.
+ * The `queued` event is emitted immediately, and the release of the
+ * acquisition is wrapped to emit the `released` event once, keeping its
+ * fencing token.
+ */
+function instrumentAcquire<R>(
+  acquireP: PromiseCancellable<readonly [ResourceRelease, R?]>,
+  instrument: LockInstrument | undefined,
+  data: Omit<LockEvent, 'event'>,
+): PromiseCancellable<readonly [ResourceRelease, R?]> {
+  if (instrument == null) return acquireP;
+  const queued = performance.now();
+  instrument({ event: 'queued', ...data });
+  return acquireP.then(
+    ([lockRelease, resource]) => {
+      const acquired = performance.now();
+      instrument({
+        event: 'acquired',
+        ...data,
+        waitDuration: acquired - queued,
+      });
+      let released = false;
+      const release = async () => {
+        if (released) return;
+        released = true;
+        const holdDuration = performance.now() - acquired;
+        await lockRelease();
+        instrument({ event: 'released', ...data, holdDuration });
+      };
+      return [refence(release, lockRelease), resource] as const;
+    },
+    (e) => {
+      instrument({
+        event:
+          e instanceof errors.ErrorAsyncLocksTimeout ? 'timedout' : 'aborted',
+        ...data,
+        waitDuration: performance.now() - queued,
+        reason: e,
+      });
+      throw e;
+    },
+    (signal) => {
+      // Propagate cancellation to `acquireP`
+      signal.addEventListener(
+        'abort',
+        () => {
+          acquireP.cancel(signal.reason);
+        },
+        { once: true },
+      );
+    },
+  );
+}
+
+/**
+ * Emits the lifecycle events of a successful try lock.
+ * It is `queued` and `acquired` without waiting, and `released` when the
+ * returned release is called.
+ */
+function instrumentTryLock(
+  lockRelease: ResourceRelease,
+  instrument: LockInstrument | undefined,
+  data: Omit<LockEvent, 'event'>,
+): ResourceRelease {
+  if (instrument == null) return lockRelease;
+  instrument({ event: 'queued', ...data });
+  instrument({ event: 'acquired', ...data, waitDuration: 0 });
+  const acquired = performance.now();
+  let released = false;
+  return refence(async () => {
+    if (released) return;
+    released = true;
+    const holdDuration = performance.now() - acquired;
+    await lockRelease();
+    instrument({ event: 'released', ...data, holdDuration });
+  }, lockRelease);
+}
+
+export {
+  promise,
+  setupTimedCancellable,
+  Waiters,
+  renderDeadlock,
+  fence,
+  lockGuard,
+  instrumentAcquire,
+  instrumentTryLock,
+};
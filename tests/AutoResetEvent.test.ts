@@ -0,0 +1,54 @@
+import * as testsUtils from './utils.js';
+import AutoResetEvent from '#AutoResetEvent.js';
+import * as errors from '#errors.js';
+
+describe(AutoResetEvent.name, () => {
+  test('auto reset event wakes one waiter per set in order', async () => {
+    const event = new AutoResetEvent();
+    const woken: Array<number> = [];
+    const waitPs = [1, 2, 3].map((i) =>
+      event.wait().then(() => {
+        woken.push(i);
+      }),
+    );
+    await testsUtils.sleep(1);
+    expect(woken).toStrictEqual([]);
+    event.set();
+    await testsUtils.sleep(1);
+    expect(woken).toStrictEqual([1]);
+    expect(event.isSet()).toBe(false);
+    event.set();
+    event.set();
+    await Promise.all(waitPs);
+    expect(woken).toStrictEqual([1, 2, 3]);
+    expect(event.isSet()).toBe(false);
+  });
+  test('auto reset event is reset by the next wait', async () => {
+    const event = new AutoResetEvent();
+    event.set();
+    event.set();
+    expect(event.isSet()).toBe(true);
+    await expect(event.wait()).resolves.toBeUndefined();
+    expect(event.isSet()).toBe(false);
+    await expect(event.wait({ timer: 10 })).rejects.toThrow(
+      errors.ErrorAsyncLocksTimeout,
+    );
+    event.set();
+    event.reset();
+    await expect(event.wait({ timer: 10 })).rejects.toThrow(
+      errors.ErrorAsyncLocksTimeout,
+    );
+  });
+  test('auto reset event abort wait', async () => {
+    const event = new AutoResetEvent();
+    const abc = new AbortController();
+    const abortP = event.wait({ signal: abc.signal });
+    const waitP = event.wait();
+    abc.abort(new Error('stop'));
+    await expect(abortP).rejects.toThrow('stop');
+    // The aborted waiter does not consume the set
+    event.set();
+    await expect(waitP).resolves.toBeUndefined();
+    expect(event.isSet()).toBe(false);
+  });
+});
@@ -86,4 +86,37 @@ describe(Barrier.name, () => {
     expect(called1).toBe(true);
     await p1;
   });
+  test('barrier is broken when a waiter times out', async () => {
+    const barrier = await Barrier.createBarrier(3);
+    const waitP = barrier.wait();
+    await expect(barrier.wait({ timer: 10 })).rejects.toThrow(
+      errors.ErrorAsyncLocksTimeout,
+    );
+    expect(barrier.isBroken()).toBe(true);
+    await expect(waitP).rejects.toThrow(errors.ErrorAsyncLocksBarrierBroken);
+    await expect(barrier.wait()).rejects.toThrow(
+      errors.ErrorAsyncLocksBarrierBroken,
+    );
+    await barrier.reset();
+    expect(barrier.isBroken()).toBe(false);
+    expect(barrier.count).toBe(3);
+    await expect(
+      Promise.all([barrier.wait(), barrier.wait(), barrier.wait()]),
+    ).toResolve();
+  });
+  test('barrier is broken when a waiter is aborted', async () => {
+    const barrier = await Barrier.createBarrier(2);
+    const abc = new AbortController();
+    const waitP = barrier.wait({ signal: abc.signal });
+    abc.abort(new Error('stop'));
+    await expect(waitP).rejects.toThrow('stop');
+    expect(barrier.isBroken()).toBe(true);
+    await barrier.reset();
+    // Resetting rejects the current waiters
+    const resetP = barrier.wait();
+    await barrier.reset();
+    await expect(resetP).rejects.toThrow(errors.ErrorAsyncLocksBarrierBroken);
+    expect(barrier.count).toBe(2);
+    await barrier.destroy();
+  });
 });
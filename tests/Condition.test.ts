@@ -0,0 +1,110 @@
+import * as testsUtils from './utils.js';
+import Condition from '#Condition.js';
+import Lock from '#Lock.js';
+import RWLockWriter from '#RWLockWriter.js';
+import * as errors from '#errors.js';
+
+describe(Condition.name, () => {
+  test('wait releases the lock until signalled', async () => {
+    const lock = new Lock();
+    const condition = new Condition(lock);
+    const order: Array<string> = [];
+    const waitP = condition.withF(async (condition) => {
+      order.push('wait');
+      await condition.wait();
+      expect(lock.isLocked()).toBe(true);
+      order.push('woken');
+    });
+    await testsUtils.sleep(10);
+    expect(condition.waiterCount).toBe(1);
+    expect(lock.isLocked()).toBe(false);
+    await condition.withF(async (condition) => {
+      order.push('signal');
+      condition.signal();
+      await testsUtils.sleep(10);
+      // The waiter reacquires the lock after it is released
+      order.push('release');
+    });
+    await waitP;
+    expect(order).toStrictEqual(['wait', 'signal', 'release', 'woken']);
+    expect(lock.isLocked()).toBe(false);
+  });
+  test('signal wakes waiters in order and broadcast wakes all', async () => {
+    const condition = new Condition(new Lock());
+    const woken: Array<number> = [];
+    const waitPs = [1, 2, 3].map((i) =>
+      condition.withF(async (condition) => {
+        await condition.wait();
+        woken.push(i);
+      }),
+    );
+    await testsUtils.sleep(10);
+    expect(condition.waiterCount).toBe(3);
+    condition.signal();
+    await testsUtils.sleep(10);
+    expect(woken).toStrictEqual([1]);
+    condition.broadcast();
+    await Promise.all(waitPs);
+    expect(woken).toStrictEqual([1, 2, 3]);
+    expect(condition.waiterCount).toBe(0);
+  });
+  test('wait for predicate', async () => {
+    const lock = new RWLockWriter();
+    const condition = new Condition(lock);
+    let value = 0;
+    const waitP = condition.withF(async (condition) => {
+      await condition.waitFor(() => value === 2);
+      expect(lock.isLocked('write')).toBe(true);
+      return value;
+    });
+    for (let i = 0; i < 2; i++) {
+      await testsUtils.sleep(10);
+      await condition.withF(async (condition) => {
+        value++;
+        condition.broadcast();
+      });
+    }
+    await expect(waitP).resolves.toBe(2);
+  });
+  test('wait timeout reacquires the lock', async () => {
+    const lock = new Lock();
+    const condition = new Condition(lock);
+    await condition.withF(async (condition) => {
+      await expect(condition.wait({ timer: 10 })).rejects.toThrow(
+        errors.ErrorAsyncLocksTimeout,
+      );
+      expect(condition.isHeld()).toBe(true);
+      expect(lock.isLocked()).toBe(true);
+      expect(condition.waiterCount).toBe(0);
+      await expect(
+        condition.waitFor(() => false, { timer: 10 }),
+      ).rejects.toThrow(errors.ErrorAsyncLocksTimeout);
+      expect(lock.isLocked()).toBe(true);
+    });
+    expect(lock.isLocked()).toBe(false);
+  });
+  test('abort wait', async () => {
+    const condition = new Condition(new Lock());
+    const [release] = await condition.lock()();
+    const abc = new AbortController();
+    const waitP = condition.wait({ signal: abc.signal });
+    await testsUtils.sleep(10);
+    abc.abort(new Error('stop'));
+    await expect(waitP).rejects.toThrow('stop');
+    expect(condition.isHeld()).toBe(true);
+    await release();
+    expect(condition.isHeld()).toBe(false);
+  });
+  test('wait requires holding the lock', async () => {
+    const lock = new Lock();
+    const condition = new Condition(lock);
+    const [release] = await lock.lock()();
+    expect(() => condition.wait()).toThrow(
+      errors.ErrorAsyncLocksConditionNotHeld,
+    );
+    expect(() => condition.waitFor(() => true)).toThrow(
+      errors.ErrorAsyncLocksConditionNotHeld,
+    );
+    await release();
+  });
+});
@@ -0,0 +1,59 @@
+import * as testsUtils from './utils.js';
+import CountDownLatch from '#CountDownLatch.js';
+import * as errors from '#errors.js';
+
+describe(CountDownLatch.name, () => {
+  test('count down latch only takes count >= 0', () => {
+    expect(() => new CountDownLatch(-1)).toThrow(RangeError);
+    expect(() => new CountDownLatch(1).countDown(-1)).toThrow(RangeError);
+  });
+  test('count down latch opens when the count reaches 0', async () => {
+    const latch = new CountDownLatch(3);
+    let called1 = false;
+    let called2 = false;
+    const p1 = latch.wait().then(() => {
+      called1 = true;
+    });
+    const p2 = latch.wait().then(() => {
+      called2 = true;
+    });
+    latch.countDown();
+    await testsUtils.sleep(1);
+    expect(latch.count).toBe(2);
+    expect(called1).toBe(false);
+    expect(called2).toBe(false);
+    latch.countDown(5);
+    expect(latch.count).toBe(0);
+    await Promise.all([p1, p2]);
+    expect(called1).toBe(true);
+    expect(called2).toBe(true);
+    // The latch stays open
+    latch.countDown();
+    expect(latch.count).toBe(0);
+    await expect(latch.wait()).resolves.toBeUndefined();
+  });
+  test('count down latch with 0 count is open', async () => {
+    const latch = new CountDownLatch(0);
+    await expect(latch.wait()).resolves.toBeUndefined();
+  });
+  test('count down latch wait with timeout', async () => {
+    const latch = new CountDownLatch(1);
+    await expect(latch.wait({ timer: 10 })).rejects.toThrow(
+      errors.ErrorAsyncLocksTimeout,
+    );
+    const waitP = latch.wait({ timer: 1000 });
+    latch.countDown();
+    await expect(waitP).resolves.toBeUndefined();
+  });
+  test('count down latch abort wait', async () => {
+    const latch = new CountDownLatch(1);
+    const abc = new AbortController();
+    const waitP = latch.wait({ signal: abc.signal });
+    abc.abort(new Error('stop'));
+    await expect(waitP).rejects.toThrow('stop');
+    const cancelP = latch.wait();
+    cancelP.cancel(new Error('cancel'));
+    await expect(cancelP).rejects.toThrow('cancel');
+    expect(latch.count).toBe(1);
+  });
+});
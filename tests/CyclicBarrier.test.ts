@@ -0,0 +1,120 @@
+import * as testsUtils from './utils.js';
+import CyclicBarrier from '#CyclicBarrier.js';
+import * as errors from '#errors.js';
+
+describe(CyclicBarrier.name, () => {
+  test('cyclic barrier only takes parties >= 1', () => {
+    expect(() => new CyclicBarrier(0)).toThrow(RangeError);
+  });
+  test('cyclic barrier blocks until all parties arrive', async () => {
+    const barrier = new CyclicBarrier(3);
+    let called1 = false;
+    let called2 = false;
+    const p1 = barrier.wait().then((generation) => {
+      called1 = true;
+      return generation;
+    });
+    const p2 = barrier.wait().then((generation) => {
+      called2 = true;
+      return generation;
+    });
+    await testsUtils.sleep(1);
+    expect(called1).toBe(false);
+    expect(called2).toBe(false);
+    expect(barrier.count).toBe(1);
+    await expect(barrier.wait()).resolves.toBe(0);
+    await expect(Promise.all([p1, p2])).resolves.toStrictEqual([0, 0]);
+    expect(barrier.count).toBe(3);
+    expect(barrier.generation).toBe(1);
+  });
+  test('cyclic barrier resets for each generation', async () => {
+    const actions: Array<number> = [];
+    const barrier = new CyclicBarrier(2, async (generation) => {
+      await testsUtils.sleep(1);
+      actions.push(generation);
+    });
+    const party = async () => {
+      const generations: Array<number> = [];
+      for (let i = 0; i < 3; i++) {
+        generations.push(await barrier.wait());
+        // The action runs before the parties are resumed
+        expect(actions).toHaveLength(i + 1);
+      }
+      return generations;
+    };
+    await expect(Promise.all([party(), party()])).resolves.toStrictEqual([
+      [0, 1, 2],
+      [0, 1, 2],
+    ]);
+    expect(actions).toStrictEqual([0, 1, 2]);
+  });
+  test('cyclic barrier is broken when the action throws', async () => {
+    const barrier = new CyclicBarrier(2, (generation) => {
+      if (generation === 0) throw new Error('action');
+    });
+    const p1 = barrier.wait();
+    const p2 = barrier.wait();
+    await expect(p1).rejects.toThrow('action');
+    await expect(p2).rejects.toThrow('action');
+    expect(barrier.isBroken()).toBe(true);
+    await expect(barrier.wait()).rejects.toThrow(
+      errors.ErrorAsyncLocksBarrierBroken,
+    );
+    barrier.reset();
+    expect(barrier.isBroken()).toBe(false);
+    await expect(
+      Promise.all([barrier.wait(), barrier.wait()]),
+    ).resolves.toStrictEqual([2, 2]);
+  });
+  test('cyclic barrier action does not break parties of the next generation', async () => {
+    const barrier = new CyclicBarrier(2, async (generation) => {
+      if (generation === 0) {
+        await testsUtils.sleep(10);
+        throw new Error('action');
+      }
+    });
+    const p1 = barrier.wait();
+    const p2 = barrier.wait();
+    // This party arrives for the next generation while the action runs
+    const p3 = barrier.wait();
+    await expect(p1).rejects.toThrow('action');
+    await expect(p2).rejects.toThrow('action');
+    expect(barrier.isBroken()).toBe(false);
+    await expect(Promise.all([p3, barrier.wait()])).resolves.toStrictEqual([
+      1, 1,
+    ]);
+  });
+  test('cyclic barrier is broken when a party times out', async () => {
+    const barrier = new CyclicBarrier(3);
+    const waitP = barrier.wait();
+    await expect(barrier.wait({ timer: 10 })).rejects.toThrow(
+      errors.ErrorAsyncLocksTimeout,
+    );
+    await expect(waitP).rejects.toThrow(errors.ErrorAsyncLocksBarrierBroken);
+    await expect(barrier.wait()).rejects.toThrow(
+      errors.ErrorAsyncLocksBarrierBroken,
+    );
+    expect(barrier.count).toBe(3);
+    barrier.reset();
+    await expect(
+      Promise.all([barrier.wait(), barrier.wait(), barrier.wait()]),
+    ).resolves.toStrictEqual([1, 1, 1]);
+  });
+  test('cyclic barrier is broken when a party is aborted', async () => {
+    const barrier = new CyclicBarrier(2);
+    const abc = new AbortController();
+    const waitP = barrier.wait({ signal: abc.signal });
+    abc.abort(new Error('stop'));
+    await expect(waitP).rejects.toThrow('stop');
+    expect(barrier.isBroken()).toBe(true);
+    // Resetting rejects the current parties
+    barrier.reset();
+    const resetP = barrier.wait();
+    barrier.reset();
+    await expect(resetP).rejects.toThrow(errors.ErrorAsyncLocksBarrierBroken);
+    expect(barrier.generation).toBe(2);
+    await expect(
+      Promise.all([barrier.wait(), barrier.wait()]),
+    ).resolves.toStrictEqual([2, 2]);
+  });
+});
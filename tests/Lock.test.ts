@@ -239,6 +239,161 @@ describe(Lock.name, () => {
     await release();
     expect(lock.count).toBe(0);
   });
+  test('lock dequeues higher priorities first', async () => {
+    const lock = new Lock({ aging: 1000 });
+    const [release] = await lock.lock()();
+    const order: Array<string> = [];
+    const ps = [
+      lock.withF({ priority: 0 }, async () => {
+        order.push('batch');
+      }),
+      lock.withF({ priority: 10 }, async () => {
+        order.push('interactive');
+      }),
+    ];
+    await release();
+    await Promise.all(ps);
+    expect(order).toStrictEqual(['interactive', 'batch']);
+  });
+  test('lock rejects waiters when the queue is full', async () => {
+    const lock = new Lock({ maxQueueLength: 0 });
+    const [release] = await lock.lock()();
+    await expect(lock.lock()()).rejects.toThrow(
+      errors.ErrorAsyncLocksQueueFull,
+    );
+    await release();
+    // Uncontended acquisitions are not queued
+    const [release_] = await lock.lock()();
+    await release_();
+    expect(lock.isLocked()).toBeFalse();
+  });
+  test('lock statistics include tries', async () => {
+    const lock = new Lock();
+    const tryRelease = lock.tryLock()!;
+    const lockP = lock.lock()();
+    expect(lock.tryLock()).toBeUndefined();
+    await tryRelease();
+    const [release] = await lockP;
+    await release();
+    const stats = lock.stats();
+    expect(stats.acquisitions).toBe(2);
+    expect(stats.queueLength).toBe(0);
+    // The try is acquired before the lock is queued
+    expect(stats.peakQueueLength).toBe(1);
+  });
+  test('lock errors report the lock', async () => {
+    const lock = new Lock({ maxQueueLength: 1 });
+    const [release] = await lock.lock()();
+    const timeoutP = lock.lock({ timer: 10 })();
+    const queueFullP = lock.lock()();
+    await expect(queueFullP).rejects.toThrow(errors.ErrorAsyncLocksQueueFull);
+    await expect(queueFullP).rejects.toHaveProperty('data.lock', Lock.name);
+    await expect(timeoutP).rejects.toThrow(errors.ErrorAsyncLocksTimeout);
+    await expect(timeoutP).rejects.toHaveProperty('data.lock', Lock.name);
+    await release();
+  });
+  test('acquire resolves to a disposable guard', async () => {
+    const lock = new Lock();
+    const guard = await lock.acquire();
+    expect(guard.lock).toBe(lock);
+    expect(lock.isLocked()).toBeTrue();
+    // Synchronous disposal releases immediately
+    guard[Symbol.dispose]();
+    expect(lock.isLocked()).toBeFalse();
+    const guard_ = await lock.acquire();
+    // Disposing a released guard does not release the lock of another guard
+    await guard[Symbol.asyncDispose]();
+    expect(lock.isLocked()).toBeTrue();
+    await guard_[Symbol.asyncDispose]();
+    await guard_.release();
+    expect(lock.count).toBe(0);
+  });
+  test('lock acquisitions carry increasing fencing tokens', async () => {
+    const lock = new Lock();
+    const [release1] = await lock.lock()();
+    await release1();
+    const release2 = lock.tryLock()!;
+    expect(release2.token).toBeGreaterThan(release1.token);
+    await release2();
+    const [release3, lease] = await lock.lease(1000)();
+    expect(lease!.token).toBeGreaterThan(release2.token);
+    await release3();
+    const guard = await lock.acquire();
+    expect(guard.token).toBeGreaterThan(lease!.token);
+    await guard.release();
+  });
+  test('lease is released when it expires', async () => {
+    const lock = new Lock();
+    const [release, lease_] = await lock.lease(50)();
+    const lease = lease_!;
+    expect(lease.lock).toBe(lock);
+    expect(lease.signal.aborted).toBe(false);
+    const lockP = lock.lock()();
+    await testsUtils.sleep(100);
+    expect(lease.signal.aborted).toBe(true);
+    expect(lease.signal.reason).toBeInstanceOf(
+      errors.ErrorAsyncLocksLeaseExpired,
+    );
+    // The lock has passed to the next locker
+    const [lockRelease] = await lockP;
+    expect(lock.isLocked()).toBe(true);
+    expect(() => lease.renew()).toThrow(errors.ErrorAsyncLocksLeaseExpired);
+    // Releasing an expired lease does not release the next locker
+    await release();
+    expect(lock.isLocked()).toBe(true);
+    await lockRelease();
+    expect(lock.isLocked()).toBe(false);
+  });
+  test('lease can be renewed while it is held', async () => {
+    const lock = new Lock();
+    const [release, lease_] = await lock.lease(50)();
+    const lease = lease_!;
+    await testsUtils.sleep(30);
+    lease.renew();
+    await testsUtils.sleep(30);
+    lease.renew(100);
+    await testsUtils.sleep(60);
+    expect(lease.signal.aborted).toBe(false);
+    expect(lock.isLocked()).toBe(true);
+    await release();
+    expect(lock.isLocked()).toBe(false);
+    expect(() => lease.renew()).toThrow(errors.ErrorAsyncLocksLeaseExpired);
+    expect(lease.signal.aborted).toBe(false);
+  });
+  test('lease durations must be finite and non-negative', async () => {
+    const lock = new Lock();
+    for (const duration of [-1, NaN, Infinity]) {
+      expect(() => lock.lease(duration)).toThrow(RangeError);
+    }
+    const [release, lease_] = await lock.lease(50)();
+    const lease = lease_!;
+    for (const duration of [-1, NaN, Infinity]) {
+      expect(() => lease.renew(duration)).toThrow(RangeError);
+    }
+    // The lease is not renewed by invalid durations
+    await testsUtils.sleep(100);
+    expect(lease.signal.aborted).toBe(true);
+    await release();
+    expect(lock.isLocked()).toBe(false);
+  });
+  test('try lock', async () => {
+    const lock = new Lock();
+    const release = lock.tryLock()!;
+    expect(release).toBeDefined();
+    expect(lock.isLocked()).toBeTrue();
+    expect(lock.count).toBe(1);
+    expect(lock.tryLock()).toBeUndefined();
+    expect(lock.count).toBe(1);
+    const lockP = lock.lock()();
+    await release();
+    await release();
+    // The queued locker is resolved before the lock can be tried again
+    expect(lock.tryLock()).toBeUndefined();
+    const [lockRelease] = await lockP;
+    await lockRelease();
+    expect(lock.count).toBe(0);
+    expect(lock.isLocked()).toBeFalse();
+  });
   test('abort lock', async () => {
     const lock = new Lock();
     const [release] = await lock.lock()();
@@ -1,5 +1,5 @@
 import type { ResourceRelease } from '@matrixai/resources';
-import type { LockRequest } from '#types.js';
+import type { LockEvent, LockRequest } from '#types.js';
 import { withF, withG } from '@matrixai/resources';
 import * as testsUtils from './utils.js';
 import LockBox from '#LockBox.js';
@@ -232,6 +232,24 @@ describe(LockBox.name, () => {
     expect(lockBox.isLocked()).toBe(false);
     expect(lockBox.count).toBe(0);
   });
+  test('timeout diagnostics', async () => {
+    const lockBox = new LockBox<RWLockWriter>();
+    await lockBox.lock(['2', RWLockWriter, 'write'])();
+    const e = await lockBox
+      .lock(['1', RWLockWriter, 'read'], ['2', RWLockWriter, 'read'], {
+        timer: 100,
+      })()
+      .catch((e) => e);
+    expect(e).toBeInstanceOf(errors.ErrorAsyncLocksTimeout);
+    expect(e.data).toMatchObject({
+      lock: 'RWLockWriter',
+      key: '2',
+      type: 'read',
+      queuePosition: 0,
+      holderCount: 1,
+    });
+    expect(e.data.elapsed).toBeGreaterThanOrEqual(90);
+  });
   test('timeout waiting for unlock', async () => {
     const lockBox = new LockBox();
     await lockBox.waitForUnlock({ timer: 100 });
@@ -449,6 +467,153 @@ describe(LockBox.name, () => {
     await release();
     expect(lockBox.count).toBe(0);
   });
+  test('rejects acquisitions when the queue of a key is full', async () => {
+    const lockBox = new LockBox({ maxQueueLength: 1 });
+    const [release] = await lockBox.lock(['1', Lock])();
+    const p = lockBox.lock(['1', Lock])();
+    const e = await lockBox
+      .lock(['0', Lock], ['1', Lock])()
+      .catch((e) => e);
+    expect(e).toBeInstanceOf(errors.ErrorAsyncLocksQueueFull);
+    expect(e.data.key).toBe('1');
+    // Other keys have their own queues, and intermediate locks are released
+    expect(lockBox.isLocked('0')).toBeFalse();
+    const [release0] = await lockBox.lock(['0', Lock])();
+    await release0();
+    await release();
+    const [release1] = await p;
+    await release1();
+    expect(lockBox.count).toBe(0);
+  });
+  test('multi lock acquisitions are bounded by the queue of each key', async () => {
+    const lockBox = new LockBox({ maxQueueLength: 1 });
+    const [release] = await lockBox.lock(['1', Lock])();
+    const p = lockBox.withMultiF(['1', Lock], async () => {});
+    await expect(
+      lockBox.withMultiF(['0', Lock], ['1', Lock], async () => {}),
+    ).rejects.toThrow(errors.ErrorAsyncLocksQueueFull);
+    // Intermediate locks are released
+    expect(lockBox.isLocked('0')).toBeFalse();
+    await release();
+    await p;
+    expect(lockBox.count).toBe(0);
+  });
+  test('acquire resolves to a disposable guard', async () => {
+    const lockBox = new LockBox();
+    const guard = await lockBox.acquire(
+      ['1', Lock],
+      ['2', RWLockWriter, 'read'],
+    );
+    expect(guard.lock).toBe(lockBox);
+    expect(lockBox.isLocked('1')).toBeTrue();
+    expect(lockBox.isLocked('2', 'read')).toBeTrue();
+    await guard[Symbol.asyncDispose]();
+    await guard.release();
+    expect(lockBox.locks.size).toBe(0);
+  });
+  test('lock box emits lifecycle events for each key', async () => {
+    const events: Array<LockEvent> = [];
+    const lockBox = new LockBox({
+      instrument: (event) => events.push(event),
+    });
+    const [release] = await lockBox.lock(
+      ['1', Lock],
+      ['2', RWLockWriter, 'read'],
+    )();
+    await release();
+    const tryRelease = lockBox.tryLock(['3', Lock])!;
+    await tryRelease();
+    expect(
+      events.map(({ event, lock, key, type }) => [event, lock, key, type]),
+    ).toStrictEqual([
+      ['queued', 'LockBox', '1', undefined],
+      ['acquired', 'LockBox', '1', undefined],
+      ['queued', 'LockBox', '2', 'read'],
+      ['acquired', 'LockBox', '2', 'read'],
+      ['released', 'LockBox', '2', 'read'],
+      ['released', 'LockBox', '1', undefined],
+      ['queued', 'LockBox', '3', undefined],
+      ['acquired', 'LockBox', '3', undefined],
+      ['released', 'LockBox', '3', undefined],
+    ]);
+  });
+  test('lock box collects contention statistics per key', async () => {
+    const lockBox = new LockBox({ maxKeyStats: 2 });
+    const [release] = await lockBox.lock(['1', Lock], ['2', Lock])();
+    const lockP = lockBox.lock(['1', Lock])();
+    await release();
+    const [release_] = await lockP;
+    expect(lockBox.stats('1')!.acquisitions).toBe(2);
+    expect(lockBox.stats('1')!.peakQueueLength).toBe(1);
+    expect(lockBox.stats('2')!.acquisitions).toBe(1);
+    expect(lockBox.stats()!.acquisitions).toBe(3);
+    // Keys are in the order they were last locked
+    expect([...lockBox.statsByKey().keys()]).toStrictEqual(['2', '1']);
+    // Statistics of unlocked keys are discarded on reset
+    lockBox.resetStats();
+    expect(lockBox.stats('1')!.acquisitions).toBe(0);
+    expect(lockBox.stats('2')).toBeUndefined();
+    await release_();
+  });
+  test('lock box bounds the keys with statistics', async () => {
+    expect(new LockBox().maxKeyStats).toBe(0);
+    const lockBox = new LockBox({ maxKeyStats: 2 });
+    for (const key of ['1', '2', '1', '3']) {
+      await lockBox.withF([key, Lock], async () => {});
+    }
+    // The least recently locked key is discarded
+    expect([...lockBox.statsByKey().keys()]).toStrictEqual(['1', '3']);
+    expect(lockBox.stats('1')!.acquisitions).toBe(2);
+    expect(lockBox.stats('2')).toBeUndefined();
+    expect(lockBox.stats()!.acquisitions).toBe(4);
+    // Statistics of keys are not kept by default
+    const lockBox_ = new LockBox();
+    await lockBox_.withF(['1', Lock], async () => {});
+    expect(lockBox_.statsByKey().size).toBe(0);
+    expect(lockBox_.stats()!.acquisitions).toBe(1);
+  });
+  test('lock box tokens keep increasing after keys are deleted', async () => {
+    const lockBox = new LockBox();
+    const [release1] = await lockBox.lock(['1', Lock])();
+    await release1();
+    expect(lockBox.locks.has('1')).toBe(false);
+    const [release2] = await lockBox.lock(['1', Lock], ['2', Lock])();
+    expect(release2.token).toBeGreaterThan(release1.token);
+    await release2();
+    const release3 = lockBox.tryLock(['1', Lock])!;
+    expect(release3.token).toBeGreaterThan(release2.token);
+    await release3();
+    const [[, lockAcquire]] = lockBox.lockMulti(['1', Lock]);
+    const [release4] = await lockAcquire();
+    expect(release4.token).toBeGreaterThan(release3.token);
+    await release4();
+  });
+  test('try lock', async () => {
+    const lockBox = new LockBox();
+    const release1 = lockBox.tryLock(['1', Lock], ['2', Lock])!;
+    expect(release1).toBeDefined();
+    expect(lockBox.isLocked('1')).toBeTrue();
+    expect(lockBox.isLocked('2')).toBeTrue();
+    // Partially acquired keys are rolled back
+    expect(lockBox.tryLock(['0', Lock], ['2', Lock])).toBeUndefined();
+    await testsUtils.sleep(0);
+    expect(lockBox.isLocked('0')).toBeFalse();
+    expect(lockBox.locks.has('0')).toBeFalse();
+    expect(() => lockBox.tryLock(['1', RWLockWriter, 'read'])).toThrow(
+      errors.ErrorAsyncLocksLockBoxConflict,
+    );
+    const release2 = lockBox.tryLock(['3', RWLockWriter, 'read'])!;
+    const release3 = lockBox.tryLock(['3', RWLockWriter, 'read'])!;
+    expect(release2).toBeDefined();
+    expect(release3).toBeDefined();
+    expect(lockBox.tryLock(['3', RWLockWriter, 'write'])).toBeUndefined();
+    await release1();
+    await release1();
+    await release2();
+    await release3();
+    expect(lockBox.count).toBe(0);
+    expect(lockBox.locks.size).toBe(0);
+  });
   test('abort lock', async () => {
     const lockBox = new LockBox();
     const [release] = await lockBox.lock(['1', Lock])();
@@ -0,0 +1,47 @@
+import * as testsUtils from './utils.js';
+import ManualResetEvent from '#ManualResetEvent.js';
+import * as errors from '#errors.js';
+
+describe(ManualResetEvent.name, () => {
+  test('manual reset event wakes all waiters', async () => {
+    const event = new ManualResetEvent();
+    let called1 = false;
+    let called2 = false;
+    const p1 = event.wait().then(() => {
+      called1 = true;
+    });
+    const p2 = event.wait().then(() => {
+      called2 = true;
+    });
+    await testsUtils.sleep(1);
+    expect(called1).toBe(false);
+    expect(called2).toBe(false);
+    event.set();
+    expect(event.isSet()).toBe(true);
+    await Promise.all([p1, p2]);
+    expect(called1).toBe(true);
+    expect(called2).toBe(true);
+  });
+  test('manual reset event stays set until reset', async () => {
+    const event = new ManualResetEvent(true);
+    await expect(event.wait()).resolves.toBeUndefined();
+    await expect(event.wait()).resolves.toBeUndefined();
+    event.reset();
+    expect(event.isSet()).toBe(false);
+    await expect(event.wait({ timer: 10 })).rejects.toThrow(
+      errors.ErrorAsyncLocksTimeout,
+    );
+  });
+  test('manual reset event abort wait', async () => {
+    const event = new ManualResetEvent();
+    const abc = new AbortController();
+    const waitP = event.wait({ signal: abc.signal });
+    abc.abort(new Error('stop'));
+    await expect(waitP).rejects.toThrow('stop');
+    const cancelP = event.wait();
+    cancelP.cancel(new Error('cancel'));
+    await expect(cancelP).rejects.toThrow('cancel');
+    event.set();
+    await expect(event.wait()).resolves.toBeUndefined();
+  });
+});
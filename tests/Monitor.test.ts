@@ -4,6 +4,7 @@ import * as testsUtils from './utils.js';
 import RWLockWriter from '#RWLockWriter.js';
 import LockBox from '#LockBox.js';
 import Monitor from '#Monitor.js';
+import WaitForGraph from '#WaitForGraph.js';
 import * as errors from '#errors.js';
 
 describe(Monitor.name, () => {
@@ -31,6 +32,22 @@ describe(Monitor.name, () => {
     await monitor.unlock('foo', 'bar');
     expect(monitor.count).toBe(0);
   });
+  test('monitor acquisitions are bounded by the queue of each key', async () => {
+    const lockBox = new LockBox<RWLockWriter>({ maxQueueLength: 1 });
+    const monitor1 = new Monitor(lockBox, RWLockWriter);
+    const monitor2 = new Monitor(lockBox, RWLockWriter);
+    const monitor3 = new Monitor(lockBox, RWLockWriter);
+    await monitor1.lock('foo')();
+    const p = monitor2.lock('foo')();
+    await expect(monitor3.lock('foo')()).rejects.toThrow(
+      errors.ErrorAsyncLocksQueueFull,
+    );
+    expect(monitor3.count).toBe(0);
+    await monitor1.unlockAll();
+    await p;
+    await monitor2.unlockAll();
+    expect(lockBox.count).toBe(0);
+  });
   test('monitors share the lockbox', async () => {
     const lockBox = new LockBox<RWLockWriter>();
     const monitor1 = new Monitor(lockBox, RWLockWriter);
@@ -51,9 +68,10 @@ describe(Monitor.name, () => {
     const monitor2 = new Monitor(lockBox, RWLockWriter);
     await monitor1.lock(['foo', 'read'])();
     await monitor1.lock(['bar', 'write'])();
-    await expect(monitor1.lock(['foo', 'write'])()).rejects.toThrow(
-      errors.ErrorAsyncLocksMonitorLockType,
-    );
+    // Upgrading and then downgrading is supported
+    await monitor1.lock(['foo', 'write'])();
+    expect(monitor1.locks.get('foo')!.type).toBe('write');
+    await monitor1.lock(['foo', 'read'])();
     await expect(monitor1.lock(['bar', 'read'])()).rejects.toThrow(
       errors.ErrorAsyncLocksMonitorLockType,
     );
@@ -437,6 +455,23 @@ describe(Monitor.name, () => {
     await monitor1.unlockAll();
     await monitor2.unlockAll();
   });
+  test('timeout diagnostics', async () => {
+    const lockBox = new LockBox<RWLockWriter>();
+    const monitor1 = new Monitor(lockBox, RWLockWriter);
+    const monitor2 = new Monitor(lockBox, RWLockWriter);
+    await monitor1.lock('foo')();
+    const e = await monitor2
+      .lock(['foo', 'read'], { timer: 100 })()
+      .catch((e) => e);
+    expect(e).toBeInstanceOf(errors.ErrorAsyncLocksTimeout);
+    expect(e.data).toMatchObject({
+      lock: 'RWLockWriter',
+      key: 'foo',
+      type: 'read',
+      holderCount: 1,
+    });
+    await monitor1.unlockAll();
+  });
   test('timeout waiting for unlock', async () => {
     const lockBox = new LockBox<RWLockWriter>();
     const monitor1 = new Monitor(lockBox, RWLockWriter);
@@ -470,24 +505,98 @@ describe(Monitor.name, () => {
     await monitor1.unlockAll();
     await monitor2.unlockAll();
   });
-  test('cannot upgrade or downgrade lock type on the same active key', async () => {
+  test('upgrade and downgrade lock type on the same active key', async () => {
     const lockBox = new LockBox<RWLockWriter>();
-    const monitor = new Monitor(lockBox, RWLockWriter);
-    await monitor.withF(['3', 'read'], async (monitor) => {
-      const f = jest.fn();
-      await expect(monitor.withF(['3', 'write'], f)).rejects.toThrow(
-        errors.ErrorAsyncLocksMonitorLockType,
-      );
-      expect(f).not.toBeCalled();
+    const monitor1 = new Monitor(lockBox, RWLockWriter);
+    const monitor2 = new Monitor(lockBox, RWLockWriter);
+    await monitor1.lock(['3', 'read'])();
+    const [release2] = await monitor2.lock(['3', 'read'])();
+    // Upgrading waits for the other readers
+    let upgraded = false;
+    const upgradeP = monitor1
+      .lock(['3', 'write'])()
+      .then((r) => {
+        upgraded = true;
+        return r;
+      });
+    await testsUtils.sleep(10);
+    expect(upgraded).toBeFalse();
+    expect(monitor1.locks.get('3')!.type).toBe('read');
+    await release2();
+    const [upgradeRelease] = await upgradeP;
+    expect(monitor1.locks.get('3')!.type).toBe('write');
+    expect(monitor1.isLocked('3', 'write')).toBeTrue();
+    expect(lockBox.isLocked('3', 'write')).toBeTrue();
+    await expect(monitor2.lock(['3', 'read'], { timer: 10 })()).rejects.toThrow(
+      errors.ErrorAsyncLocksTimeout,
+    );
+    // Releasing the upgrade acquisition does not unlock the key
+    await upgradeRelease();
+    expect(monitor1.count).toBe(1);
+    // Downgrading is allowed for upgraded keys
+    await monitor1.lock(['3', 'read'])();
+    expect(monitor1.locks.get('3')!.type).toBe('read');
+    expect(lockBox.isLocked('3', 'write')).toBeFalse();
+    await monitor2.withF(['3', 'read'], async () => {
+      expect(lockBox.isLocked('3', 'read')).toBeTrue();
     });
-    await monitor.withF(['3', 'write'], async (monitor) => {
+    // Keys can be upgraded again
+    await monitor1.lock(['3', 'write'])();
+    expect(monitor1.locks.get('3')!.type).toBe('write');
+    await monitor1.unlockAll();
+    expect(lockBox.isLocked()).toBeFalse();
+    expect(lockBox.count).toBe(0);
+    // Keys locked for write cannot be downgraded
+    await monitor1.withF(['3', 'write'], async (monitor) => {
       const f = jest.fn();
       await expect(monitor.withF(['3', 'read'], f)).rejects.toThrow(
         errors.ErrorAsyncLocksMonitorLockType,
       );
       expect(f).not.toBeCalled();
     });
-    await monitor.unlockAll();
+    await monitor1.unlockAll();
+    await monitor2.unlockAll();
+  });
+  test('upgrade is rolled back on rejection', async () => {
+    const lockBox = new LockBox<RWLockWriter>();
+    const monitor1 = new Monitor(lockBox, RWLockWriter);
+    const monitor2 = new Monitor(lockBox, RWLockWriter);
+    await monitor1.lock(['1', 'read'], ['2', 'read'])();
+    await monitor2.lock(['2', 'read'])();
+    await expect(
+      monitor1.lock(['1', 'write'], ['2', 'write'], { timer: 10 })(),
+    ).rejects.toThrow(errors.ErrorAsyncLocksTimeout);
+    expect(monitor1.locks.get('1')!.type).toBe('read');
+    expect(monitor1.locks.get('2')!.type).toBe('read');
+    expect(lockBox.isLocked('1', 'write')).toBeFalse();
+    expect(lockBox.isLocked('2', 'write')).toBeFalse();
+    await monitor1.unlockAll();
+    await monitor2.unlockAll();
+    expect(lockBox.count).toBe(0);
+  });
+  test('upgrade does not wait for writers queued on the read key', async () => {
+    const lockBox = new LockBox<RWLockWriter>();
+    const monitor1 = new Monitor(lockBox, RWLockWriter);
+    const monitor2 = new Monitor(lockBox, RWLockWriter);
+    await monitor1.lock(['k', 'read'])();
+    let written = false;
+    const writeP = monitor2
+      .lock(['k', 'write'])()
+      .then((r) => {
+        written = true;
+        return r;
+      });
+    await testsUtils.sleep(10);
+    // The queued writer is waiting for the read key of monitor1
+    await monitor1.lock(['k', 'write'])();
+    expect(monitor1.locks.get('k')!.type).toBe('write');
+    expect(written).toBeFalse();
+    await monitor1.unlockAll();
+    await writeP;
+    expect(written).toBeTrue();
+    expect(monitor2.locks.get('k')!.type).toBe('write');
+    await monitor2.unlockAll();
+    expect(lockBox.count).toBe(0);
   });
   test('prevent deadlocks with lock hierarchy via sorted lock keys', async () => {
     const lockBox = new LockBox<RWLockWriter>();
@@ -581,6 +690,47 @@ describe(Monitor.name, () => {
     await monitor1.unlockAll();
     await monitor2.unlockAll();
   });
+  test('acquire resolves to a disposable guard', async () => {
+    const lockBox = new LockBox<RWLockWriter>();
+    const monitor = new Monitor(lockBox, RWLockWriter);
+    const guard = await monitor.acquire('foo', ['bar', 'read']);
+    expect(monitor.isLocked('foo', 'write')).toBeTrue();
+    expect(monitor.isLocked('bar', 'read')).toBeTrue();
+    await guard[Symbol.asyncDispose]();
+    expect(monitor.isLocked()).toBeFalse();
+    expect(lockBox.isLocked()).toBeFalse();
+  });
+  test('try lock', async () => {
+    const lockBox = new LockBox<RWLockWriter>();
+    const monitor1 = new Monitor(lockBox, RWLockWriter);
+    const monitor2 = new Monitor(lockBox, RWLockWriter);
+    const release1 = monitor1.tryLock('a', ['b', 'read'])!;
+    expect(release1).toBeDefined();
+    expect(monitor1.count).toBe(2);
+    expect(monitor1.isLocked('a', 'write')).toBeTrue();
+    expect(monitor1.isLocked('b', 'read')).toBeTrue();
+    // Re-entrant on the same type
+    const release2 = monitor1.tryLock(['b', 'read'])!;
+    expect(release2).toBeDefined();
+    expect(() => monitor1.tryLock(['b', 'write'])).toThrow(
+      errors.ErrorAsyncLocksMonitorLockType,
+    );
+    const release3 = monitor2.tryLock(['b', 'read'])!;
+    expect(release3).toBeDefined();
+    // Partially acquired keys are rolled back
+    expect(monitor2.tryLock('0', ['a', 'read'])).toBeUndefined();
+    expect(monitor2.count).toBe(1);
+    await testsUtils.sleep(0);
+    expect(lockBox.isLocked('0')).toBeFalse();
+    await release1();
+    await release1();
+    await release3();
+    expect(monitor1.count).toBe(0);
+    expect(monitor2.count).toBe(0);
+    expect(lockBox.count).toBe(0);
+    await monitor1.unlockAll();
+    await monitor2.unlockAll();
+  });
   test('abort lock', async () => {
     const lockBox = new LockBox<RWLockWriter>();
     const monitor1 = new Monitor(lockBox, RWLockWriter);
@@ -623,12 +773,12 @@ describe(Monitor.name, () => {
     // encountering a deadlock. Either through strict serialisation of deadlock
     // possible code or by switching to optimistic concurrency control.
     // This is why the deadlock detection is not enabled by default, it requires
-    // sharing a map between all constructions of the `Monitor`.
+    // sharing a wait-for graph between all constructions of the `Monitor`.
     test('monitor1 [a:r, b:r] monitor2 [b:r, a:r] - no blocks', async () => {
       const lockBox = new LockBox<RWLockWriter>();
-      const locksPending = new Map();
-      const monitor1 = new Monitor(lockBox, RWLockWriter, locksPending);
-      const monitor2 = new Monitor(lockBox, RWLockWriter, locksPending);
+      const waitForGraph = new WaitForGraph();
+      const monitor1 = new Monitor(lockBox, RWLockWriter, waitForGraph);
+      const monitor2 = new Monitor(lockBox, RWLockWriter, waitForGraph);
       await monitor1.lock(['a', 'read'])();
       await monitor2.lock(['b', 'read'])();
       const p1 = monitor1.lock(['b', 'read'])();
@@ -642,9 +792,9 @@ describe(Monitor.name, () => {
     });
     test('monitor1 [a:r, b:r] monitor2 [b:w, a:r] - monitor1 is blocked', async () => {
       const lockBox = new LockBox<RWLockWriter>();
-      const locksPending = new Map();
-      const monitor1 = new Monitor(lockBox, RWLockWriter, locksPending);
-      const monitor2 = new Monitor(lockBox, RWLockWriter, locksPending);
+      const waitForGraph = new WaitForGraph();
+      const monitor1 = new Monitor(lockBox, RWLockWriter, waitForGraph);
+      const monitor2 = new Monitor(lockBox, RWLockWriter, waitForGraph);
       await monitor1.lock(['a', 'read'])();
       await monitor2.lock(['b', 'write'])();
       const p1 = monitor1.lock(['b', 'read'])();
@@ -655,9 +805,9 @@ describe(Monitor.name, () => {
     });
     test('monitor1 [a:r, b:w] monitor2 [b:r, a:r] - monitor1 is blocked', async () => {
       const lockBox = new LockBox<RWLockWriter>();
-      const locksPending = new Map();
-      const monitor1 = new Monitor(lockBox, RWLockWriter, locksPending);
-      const monitor2 = new Monitor(lockBox, RWLockWriter, locksPending);
+      const waitForGraph = new WaitForGraph();
+      const monitor1 = new Monitor(lockBox, RWLockWriter, waitForGraph);
+      const monitor2 = new Monitor(lockBox, RWLockWriter, waitForGraph);
       await monitor1.lock(['a', 'read'])();
       await monitor2.lock(['b', 'read'])();
       const p1 = monitor1.lock(['b', 'write'])();
@@ -668,9 +818,9 @@ describe(Monitor.name, () => {
     });
     test('monitor1 [a:r, b:w] monitor2 [b:w, a:r] - monitor1 is blocked', async () => {
       const lockBox = new LockBox<RWLockWriter>();
-      const locksPending = new Map();
-      const monitor1 = new Monitor(lockBox, RWLockWriter, locksPending);
-      const monitor2 = new Monitor(lockBox, RWLockWriter, locksPending);
+      const waitForGraph = new WaitForGraph();
+      const monitor1 = new Monitor(lockBox, RWLockWriter, waitForGraph);
+      const monitor2 = new Monitor(lockBox, RWLockWriter, waitForGraph);
       await monitor1.lock(['a', 'read'])();
       await monitor2.lock(['b', 'read'])();
       const p1 = monitor1.lock(['b', 'write'])();
@@ -681,9 +831,9 @@ describe(Monitor.name, () => {
     });
     test('monitor1 [a:w, b:r] monitor2 [b:r, a:r] - monitor2 is blocked', async () => {
       const lockBox = new LockBox<RWLockWriter>();
-      const locksPending = new Map();
-      const monitor1 = new Monitor(lockBox, RWLockWriter, locksPending);
-      const monitor2 = new Monitor(lockBox, RWLockWriter, locksPending);
+      const waitForGraph = new WaitForGraph();
+      const monitor1 = new Monitor(lockBox, RWLockWriter, waitForGraph);
+      const monitor2 = new Monitor(lockBox, RWLockWriter, waitForGraph);
       await monitor1.lock(['a', 'write'])();
       await monitor2.lock(['b', 'read'])();
       const p1 = monitor1.lock(['b', 'read'])();
@@ -694,9 +844,9 @@ describe(Monitor.name, () => {
     });
     test('monitor1 [a:r, b:r] monitor2 [b:r, a:w] - monitor2 is blocked', async () => {
       const lockBox = new LockBox<RWLockWriter>();
-      const locksPending = new Map();
-      const monitor1 = new Monitor(lockBox, RWLockWriter, locksPending);
-      const monitor2 = new Monitor(lockBox, RWLockWriter, locksPending);
+      const waitForGraph = new WaitForGraph();
+      const monitor1 = new Monitor(lockBox, RWLockWriter, waitForGraph);
+      const monitor2 = new Monitor(lockBox, RWLockWriter, waitForGraph);
       await monitor1.lock(['a', 'write'])();
       await monitor2.lock(['b', 'read'])();
       const p1 = monitor1.lock(['b', 'read'])();
@@ -707,9 +857,9 @@ describe(Monitor.name, () => {
     });
     test('monitor1 [a:w, b:r] monitor2 [b:r, a:w] - monitor2 is blocked', async () => {
       const lockBox = new LockBox<RWLockWriter>();
-      const locksPending = new Map();
-      const monitor1 = new Monitor(lockBox, RWLockWriter, locksPending);
-      const monitor2 = new Monitor(lockBox, RWLockWriter, locksPending);
+      const waitForGraph = new WaitForGraph();
+      const monitor1 = new Monitor(lockBox, RWLockWriter, waitForGraph);
+      const monitor2 = new Monitor(lockBox, RWLockWriter, waitForGraph);
       await monitor1.lock(['a', 'write'])();
       await monitor2.lock(['b', 'read'])();
       const p1 = monitor1.lock(['b', 'read'])();
@@ -720,9 +870,9 @@ describe(Monitor.name, () => {
     });
     test('monitor1 [a:r, b:w] monitor2 [b:r, a:w] - deadlock', async () => {
       const lockBox = new LockBox<RWLockWriter>();
-      const locksPending = new Map();
-      const monitor1 = new Monitor(lockBox, RWLockWriter, locksPending);
-      const monitor2 = new Monitor(lockBox, RWLockWriter, locksPending);
+      const waitForGraph = new WaitForGraph();
+      const monitor1 = new Monitor(lockBox, RWLockWriter, waitForGraph);
+      const monitor2 = new Monitor(lockBox, RWLockWriter, waitForGraph);
       await monitor1.lock(['a', 'read'])();
       await monitor2.lock(['b', 'read'])();
       const p1 = monitor1.lock(['b', 'write'])();
@@ -733,9 +883,9 @@ describe(Monitor.name, () => {
     });
     test('monitor1 [a:w, b:r] monitor2 [b:w, a:r] is a deadlock', async () => {
       const lockBox = new LockBox<RWLockWriter>();
-      const locksPending = new Map();
-      const monitor1 = new Monitor(lockBox, RWLockWriter, locksPending);
-      const monitor2 = new Monitor(lockBox, RWLockWriter, locksPending);
+      const waitForGraph = new WaitForGraph();
+      const monitor1 = new Monitor(lockBox, RWLockWriter, waitForGraph);
+      const monitor2 = new Monitor(lockBox, RWLockWriter, waitForGraph);
       await monitor1.lock(['a', 'write'])();
       await monitor2.lock(['b', 'write'])();
       const p1 = monitor1.lock(['b', 'read'])();
@@ -746,9 +896,9 @@ describe(Monitor.name, () => {
     });
     test('monitor1 [a:w, b:w] monitor2 [b:r, a:r] is a deadlock', async () => {
       const lockBox = new LockBox<RWLockWriter>();
-      const locksPending = new Map();
-      const monitor1 = new Monitor(lockBox, RWLockWriter, locksPending);
-      const monitor2 = new Monitor(lockBox, RWLockWriter, locksPending);
+      const waitForGraph = new WaitForGraph();
+      const monitor1 = new Monitor(lockBox, RWLockWriter, waitForGraph);
+      const monitor2 = new Monitor(lockBox, RWLockWriter, waitForGraph);
       await monitor1.lock(['a', 'write'])();
       await monitor2.lock(['b', 'read'])();
       const p1 = monitor1.lock(['b', 'write'])();
@@ -759,9 +909,9 @@ describe(Monitor.name, () => {
     });
     test('monitor1 [a:r, b:r] monitor2 [b:w, a:w] is a deadlock', async () => {
       const lockBox = new LockBox<RWLockWriter>();
-      const locksPending = new Map();
-      const monitor1 = new Monitor(lockBox, RWLockWriter, locksPending);
-      const monitor2 = new Monitor(lockBox, RWLockWriter, locksPending);
+      const waitForGraph = new WaitForGraph();
+      const monitor1 = new Monitor(lockBox, RWLockWriter, waitForGraph);
+      const monitor2 = new Monitor(lockBox, RWLockWriter, waitForGraph);
       await monitor1.lock(['a', 'read'])();
       await monitor2.lock(['b', 'write'])();
       const p1 = monitor1.lock(['b', 'read'])();
@@ -772,14 +922,22 @@ describe(Monitor.name, () => {
     });
     test('monitor1 [a:w, b:w] monitor2 [b:w, a:w] is a deadlock', async () => {
       const lockBox = new LockBox<RWLockWriter>();
-      const locksPending = new Map();
-      const monitor1 = new Monitor(lockBox, RWLockWriter, locksPending);
-      const monitor2 = new Monitor(lockBox, RWLockWriter, locksPending);
+      const waitForGraph = new WaitForGraph();
+      const monitor1 = new Monitor(lockBox, RWLockWriter, waitForGraph);
+      const monitor2 = new Monitor(lockBox, RWLockWriter, waitForGraph);
       await monitor1.lock('a')();
       await monitor2.lock('b')();
       const p1 = monitor1.lock('b')();
       const p2 = monitor2.lock('a')();
       await expect(p2).rejects.toThrow(errors.ErrorAsyncLocksMonitorDeadlock);
+      const e = await p2.catch((e) => e);
+      expect(e.data).toMatchObject({
+        owner: waitForGraph.getId(monitor2),
+        key: 'a',
+        type: 'write',
+        held: [['b', 'write']],
+      });
+      expect(e.data.cycle).toHaveLength(2);
       expect(monitor2.isLocked('b')).toBeTrue();
       await monitor2.unlock('b');
       expect(monitor2.isLocked('b')).toBeFalse();
@@ -789,25 +947,104 @@ describe(Monitor.name, () => {
     });
     test('monitor1 [a:w, b:w] monitor2 [b:w, c:w] monitor3 [c:w, a:w] is a 3-way deadlock', async () => {
       const lockBox = new LockBox<RWLockWriter>();
-      const locksPending = new Map();
-      const monitor1 = new Monitor(lockBox, RWLockWriter, locksPending);
-      const monitor2 = new Monitor(lockBox, RWLockWriter, locksPending);
-      const monitor3 = new Monitor(lockBox, RWLockWriter, locksPending);
+      const waitForGraph = new WaitForGraph();
+      const monitor1 = new Monitor(lockBox, RWLockWriter, waitForGraph);
+      const monitor2 = new Monitor(lockBox, RWLockWriter, waitForGraph);
+      const monitor3 = new Monitor(lockBox, RWLockWriter, waitForGraph);
       await monitor1.lock('a')();
       await monitor2.lock('b')();
       await monitor3.lock('c')();
       const p1 = monitor1.lock('b')();
       const p2 = monitor2.lock('c')();
       const p3 = monitor3.lock('a')();
+      // P3 closes the cycle and is the youngest, so only P3 is aborted
+      await expect(p3).rejects.toThrow(errors.ErrorAsyncLocksMonitorDeadlock);
+      // P3 must unlock `c` as it is blocking P2
+      await monitor3.unlockAll();
+      // P2 will succeed
+      await expect(p2).resolves.toEqual(expect.any(Array));
+      // P2 must unlock `b` and `c` as it is blocking P1
+      await monitor2.unlockAll();
+      await expect(p1).resolves.toEqual(expect.any(Array));
+      await monitor1.unlockAll();
+      expect(lockBox.count).toBe(0);
+    });
+    test('monitor1 [a:w, b:w] monitor2 [b:r, c:w] monitor3 [c:r, d:r] - no deadlock', async () => {
+      const lockBox = new LockBox<RWLockWriter>();
+      const waitForGraph = new WaitForGraph();
+      const monitor1 = new Monitor(lockBox, RWLockWriter, waitForGraph);
+      const monitor2 = new Monitor(lockBox, RWLockWriter, waitForGraph);
+      const monitor3 = new Monitor(lockBox, RWLockWriter, waitForGraph);
+      await monitor1.lock('a')();
+      await monitor2.lock(['b', 'read'])();
+      await monitor3.lock(['c', 'read'])();
+      // Monitor1 waits for monitor2, and monitor2 waits for monitor3
+      const p1 = monitor1.lock('b')();
+      const p2 = monitor2.lock('c')();
+      // Monitor3 holds nothing that monitor1 or monitor2 need for reading
+      const p3 = monitor3.lock(['d', 'read'])();
+      await expect(p3).resolves.toEqual(expect.any(Array));
+      await monitor3.unlockAll();
+      await expect(p2).resolves.toEqual(expect.any(Array));
+      await monitor2.unlockAll();
+      await expect(p1).resolves.toEqual(expect.any(Array));
+      await monitor1.unlockAll();
+    });
+    test('victim policy fewest locks aborts the monitor holding the fewest keys', async () => {
+      const lockBox = new LockBox<RWLockWriter>();
+      const waitForGraph = new WaitForGraph('fewestLocks');
+      const monitor1 = new Monitor(lockBox, RWLockWriter, waitForGraph);
+      const monitor2 = new Monitor(lockBox, RWLockWriter, waitForGraph);
+      await monitor1.lock('a')();
+      await monitor2.lock('b', 'c')();
+      const p1 = monitor1.lock('b')();
+      const p2 = monitor2.lock('a')();
+      // Monitor1 is older but holds fewer keys
+      await expect(p1).rejects.toThrow(errors.ErrorAsyncLocksMonitorDeadlock);
+      expect(monitor1.isLocked('a')).toBeTrue();
+      await monitor1.unlockAll();
+      await expect(p2).resolves.toEqual(expect.any(Array));
+      await monitor2.unlockAll();
+      expect(lockBox.count).toBe(0);
+    });
+    test('victim policy priority aborts the monitor with the lowest priority', async () => {
+      const lockBox = new LockBox<RWLockWriter>();
+      const waitForGraph = new WaitForGraph('priority');
+      const monitor1 = new Monitor(lockBox, RWLockWriter, waitForGraph, 0);
+      const monitor2 = new Monitor(lockBox, RWLockWriter, waitForGraph, 1);
+      const monitor3 = new Monitor(lockBox, RWLockWriter, waitForGraph, 2);
+      await monitor1.lock('a')();
+      await monitor2.lock('b')();
+      await monitor3.lock('c')();
+      const p1 = monitor1.lock('b')();
+      const p2 = monitor2.lock('c')();
+      const p3 = monitor3.lock('a')();
+      await expect(p1).rejects.toThrow(errors.ErrorAsyncLocksMonitorDeadlock);
+      await monitor1.unlockAll();
+      await expect(p3).resolves.toEqual(expect.any(Array));
+      await monitor3.unlockAll();
+      await expect(p2).resolves.toEqual(expect.any(Array));
+      await monitor2.unlockAll();
+      expect(lockBox.count).toBe(0);
+    });
+    test('monitor1 [a:r, a:w] monitor2 [a:r, a:w] is an upgrade deadlock', async () => {
+      const lockBox = new LockBox<RWLockWriter>();
+      const waitForGraph = new WaitForGraph();
+      const monitor1 = new Monitor(lockBox, RWLockWriter, waitForGraph);
+      const monitor2 = new Monitor(lockBox, RWLockWriter, waitForGraph);
+      await monitor1.lock(['a', 'read'])();
+      await monitor2.lock(['a', 'read'])();
+      const p1 = monitor1.lock(['a', 'write'])();
+      const p2 = monitor2.lock(['a', 'write'])();
       // P2 realises it's in a deadlock
       await expect(p2).rejects.toThrow(errors.ErrorAsyncLocksMonitorDeadlock);
-      // P2 must unlock `b` as it is blocking P1
+      expect(monitor2.locks.get('a')!.type).toBe('read');
+      // P2 must unlock `a` as it is blocking the upgrade of P1
       await monitor2.unlockAll();
-      // P1 will succeed
       await expect(p1).resolves.toEqual(expect.any(Array));
-      // P1 must unlock `a` as it is blocking P3
+      expect(monitor1.locks.get('a')!.type).toBe('write');
       await monitor1.unlockAll();
-      await expect(p3).resolves.toEqual(expect.any(Array));
+      expect(lockBox.count).toBe(0);
     });
     test('monitor deadlock to be resolved with timeout', async () => {
       const lockBox = new LockBox<RWLockWriter>();
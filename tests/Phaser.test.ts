@@ -0,0 +1,90 @@
+import * as testsUtils from './utils.js';
+import Phaser from '#Phaser.js';
+import * as errors from '#errors.js';
+
+describe(Phaser.name, () => {
+  test('phaser only takes parties >= 0', () => {
+    expect(() => new Phaser(-1)).toThrow(RangeError);
+  });
+  test('phaser advances when all registered parties arrive', async () => {
+    const phaser = new Phaser(3);
+    let called = false;
+    const p = phaser.arriveAndAwaitAdvance().then((phase) => {
+      called = true;
+      return phase;
+    });
+    expect(phaser.arrive()).toBe(0);
+    await testsUtils.sleep(1);
+    expect(called).toBe(false);
+    expect(phaser.arrivedParties).toBe(2);
+    expect(phaser.unarrivedParties).toBe(1);
+    await expect(phaser.arriveAndAwaitAdvance()).resolves.toBe(1);
+    await expect(p).resolves.toBe(1);
+    expect(phaser.phase).toBe(1);
+    expect(phaser.arrivedParties).toBe(0);
+    expect(phaser.registeredParties).toBe(3);
+  });
+  test('phaser parties can register and deregister between phases', async () => {
+    const phaser = new Phaser();
+    expect(phaser.register()).toBe(0);
+    expect(phaser.register()).toBe(0);
+    await expect(
+      Promise.all([
+        phaser.arriveAndAwaitAdvance(),
+        phaser.arriveAndAwaitAdvance(),
+      ]),
+    ).resolves.toStrictEqual([1, 1]);
+    // A party joins in the next phase
+    expect(phaser.register()).toBe(1);
+    expect(phaser.registeredParties).toBe(3);
+    const p1 = phaser.arriveAndAwaitAdvance();
+    // A party leaves without waiting
+    expect(phaser.arriveAndDeregister()).toBe(1);
+    expect(phaser.phase).toBe(1);
+    expect(phaser.registeredParties).toBe(2);
+    const p2 = phaser.arriveAndAwaitAdvance();
+    await expect(Promise.all([p1, p2])).resolves.toStrictEqual([2, 2]);
+    expect(phaser.phase).toBe(2);
+  });
+  test('phaser advances when the last unarrived party deregisters', async () => {
+    const phaser = new Phaser(2);
+    const p = phaser.arriveAndAwaitAdvance();
+    expect(phaser.arriveAndDeregister()).toBe(0);
+    await expect(p).resolves.toBe(1);
+    expect(phaser.registeredParties).toBe(1);
+  });
+  test('phaser rejects arrivals beyond registered parties', async () => {
+    const phaser = new Phaser(1);
+    expect(phaser.arrive()).toBe(0);
+    expect(phaser.phase).toBe(1);
+    phaser.arriveAndDeregister();
+    expect(() => phaser.arrive()).toThrow(errors.ErrorAsyncLocksPhaserParties);
+    expect(() => phaser.arriveAndDeregister()).toThrow(
+      errors.ErrorAsyncLocksPhaserParties,
+    );
+  });
+  test('phaser await advance with timeout', async () => {
+    const phaser = new Phaser(2);
+    await expect(phaser.arriveAndAwaitAdvance({ timer: 10 })).rejects.toThrow(
+      errors.ErrorAsyncLocksTimeout,
+    );
+    // The timed out party is still counted as arrived
+    expect(phaser.arrivedParties).toBe(1);
+    await expect(phaser.awaitAdvance(0, { timer: 10 })).rejects.toThrow(
+      errors.ErrorAsyncLocksTimeout,
+    );
+    expect(phaser.arrive()).toBe(0);
+    await expect(phaser.awaitAdvance(0)).resolves.toBe(1);
+  });
+  test('phaser abort await advance', async () => {
+    const phaser = new Phaser(2);
+    const abc = new AbortController();
+    const p = phaser.arriveAndAwaitAdvance({ signal: abc.signal });
+    abc.abort(new Error('stop'));
+    await expect(p).rejects.toThrow('stop');
+    const cancelP = phaser.awaitAdvance(0);
+    cancelP.cancel(new Error('cancel'));
+    await expect(cancelP).rejects.toThrow('cancel');
+    await expect(phaser.arriveAndAwaitAdvance()).resolves.toBe(1);
+  });
+});
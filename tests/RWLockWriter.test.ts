@@ -465,6 +465,37 @@ describe(RWLockWriter.name, () => {
     expect(lock.readerCount).toBe(0);
     expect(lock.writerCount).toBe(0);
   });
+  test('timeout diagnostics', async () => {
+    const lock = new RWLockWriter();
+    const [release] = await lock.read()();
+    await lock.read()();
+    const writeP = lock.write({ timer: 100 })();
+    const e = await writeP.catch((e) => e);
+    expect(e).toBeInstanceOf(errors.ErrorAsyncLocksTimeout);
+    expect(e.data).toMatchObject({
+      lock: 'RWLockWriter',
+      type: 'write',
+      queuePosition: 0,
+      holderCount: 2,
+    });
+    expect(e.data.elapsed).toBeGreaterThanOrEqual(90);
+    await release();
+  });
+  test('timeout diagnostics count the holders of tries', async () => {
+    const lock = new RWLockWriter();
+    const release = lock.tryWrite()!;
+    const e = await lock
+      .read({ timer: 10 })()
+      .catch((e) => e);
+    expect(e).toBeInstanceOf(errors.ErrorAsyncLocksTimeout);
+    expect(e.data).toMatchObject({
+      lock: 'RWLockWriter',
+      type: 'read',
+      holderCount: 1,
+    });
+    await release();
+    expect(lock.count).toBe(0);
+  });
   test('timeout waiting for unlock', async () => {
     const lock = new RWLockWriter();
     await lock.waitForUnlock({ timer: 100 });
@@ -531,6 +562,287 @@ describe(RWLockWriter.name, () => {
     await release();
     expect(lock.count).toBe(0);
   });
+  test('writers with higher priorities lock first', async () => {
+    const lock = new RWLockWriter();
+    const [release] = await lock.write()();
+    const order: Array<number> = [];
+    const ps = [0, 1].map((priority) =>
+      lock.withWriteF({ priority }, async () => {
+        order.push(priority);
+      }),
+    );
+    await release();
+    await Promise.all(ps);
+    expect(order).toStrictEqual([1, 0]);
+  });
+  test('writers with low priorities are aged', async () => {
+    const lock = new RWLockWriter({ aging: 10 });
+    const [release] = await lock.write()();
+    const order: Array<number> = [];
+    const p1 = lock.withWriteF({ priority: 0 }, async () => {
+      order.push(1);
+    });
+    await testsUtils.sleep(50);
+    // The first writer has been promoted past this writer by now
+    const p2 = lock.withWriteF({ priority: 2 }, async () => {
+      order.push(2);
+    });
+    await release();
+    await Promise.all([p1, p2]);
+    expect(order).toStrictEqual([1, 2]);
+    expect(() => new RWLockWriter({ aging: 0 })).toThrow(RangeError);
+  });
+  test('rejects acquisitions when the queue is full', async () => {
+    const lock = new RWLockWriter({ maxQueueLength: 1 });
+    const [readRelease1] = await lock.read()();
+    const writeP = lock.write()();
+    // Readers cannot overtake the pending writer, so they would be queued
+    await expect(lock.read()()).rejects.toThrow(
+      errors.ErrorAsyncLocksQueueFull,
+    );
+    await readRelease1();
+    const [writeRelease] = await writeP;
+    await writeRelease();
+  });
+  test('upgradable lock is a single waiter in the queue', async () => {
+    const lock = new RWLockWriter({ maxQueueLength: 1 });
+    const [writeRelease] = await lock.write()();
+    const upgradableP = lock.lock('upgradable')();
+    // The upgradable lock waits behind the writer as the only waiter
+    await testsUtils.sleep(10);
+    await expect(lock.read()()).rejects.toThrow(
+      errors.ErrorAsyncLocksQueueFull,
+    );
+    await writeRelease();
+    const [upgradableRelease, upgradable] = await upgradableP;
+    await upgradable!.upgrade();
+    expect(lock.isLocked('write')).toBeTrue();
+    await upgradableRelease();
+    expect(lock.count).toBe(0);
+  });
+  test('acquire resolves to a disposable guard', async () => {
+    const lock = new RWLockWriter();
+    const readGuard1 = await lock.acquire('read');
+    const readGuard2 = await lock.acquire('read');
+    expect(lock.isLocked('read')).toBeTrue();
+    await readGuard1[Symbol.asyncDispose]();
+    await readGuard1[Symbol.asyncDispose]();
+    expect(lock.readerCount).toBe(1);
+    await readGuard2.release();
+    const writeGuard = await lock.acquire();
+    expect(lock.isLocked('write')).toBeTrue();
+    await writeGuard[Symbol.asyncDispose]();
+    expect(lock.isLocked()).toBeFalse();
+  });
+  test('emits lifecycle events', async () => {
+    const events: Array<[string, string | undefined]> = [];
+    const lock = new RWLockWriter({
+      instrument: ({ event, type }) => events.push([event, type]),
+    });
+    await lock.withReadF(async () => {
+      await lock.withReadF(async () => {});
+    });
+    await lock.withWriteF(async () => {});
+    // Only successful tries emit events
+    const readRelease = lock.tryRead()!;
+    expect(lock.tryWrite()).toBeUndefined();
+    await readRelease();
+    expect(events).toStrictEqual([
+      ['queued', 'read'],
+      ['acquired', 'read'],
+      ['queued', 'read'],
+      ['acquired', 'read'],
+      ['released', 'read'],
+      ['released', 'read'],
+      ['queued', 'write'],
+      ['acquired', 'write'],
+      ['released', 'write'],
+      ['queued', 'read'],
+      ['acquired', 'read'],
+      ['released', 'read'],
+    ]);
+  });
+  test('upgradable locks emit the events of a single acquisition', async () => {
+    const events: Array<[string, string | undefined]> = [];
+    const lock = new RWLockWriter({
+      instrument: ({ event, type }) => events.push([event, type]),
+    });
+    await lock.withUpgradableF(async () => {});
+    const [release] = lock.tryUpgradable()!;
+    await release();
+    expect(events).toStrictEqual([
+      ['queued', 'upgradable'],
+      ['acquired', 'upgradable'],
+      ['released', 'upgradable'],
+      ['queued', 'upgradable'],
+      ['acquired', 'upgradable'],
+      ['released', 'upgradable'],
+    ]);
+    expect(lock.stats().acquisitions).toBe(2);
+  });
+  test('collects contention statistics', async () => {
+    const lock = new RWLockWriter();
+    await Promise.all([
+      lock.withReadF(async () => {}),
+      lock.withWriteF(async () => {}),
+      lock.withReadF(async () => {}),
+    ]);
+    const stats = lock.stats();
+    expect(stats.acquisitions).toBe(3);
+    expect(stats.queueLength).toBe(0);
+    expect(stats.peakQueueLength).toBe(3);
+  });
+  test('write acquisitions carry increasing fencing tokens', async () => {
+    const lock = new RWLockWriter();
+    const [release1] = await lock.write()();
+    const writeP = lock.write()();
+    await release1();
+    const [release2] = await writeP;
+    expect(release2.token).toBeGreaterThan(release1.token);
+    await release2();
+    const release3 = lock.tryWrite()!;
+    expect(release3.token).toBeGreaterThan(release2.token);
+    await release3();
+  });
+  test('try lock', async () => {
+    const lock = new RWLockWriter();
+    const readRelease1 = lock.tryLock('read')!;
+    const readRelease2 = lock.tryRead()!;
+    expect(readRelease1).toBeDefined();
+    expect(readRelease2).toBeDefined();
+    expect(lock.readerCount).toBe(2);
+    expect(lock.isLocked('read')).toBeTrue();
+    expect(lock.tryLock()).toBeUndefined();
+    expect(lock.tryWrite()).toBeUndefined();
+    expect(lock.writerCount).toBe(0);
+    await readRelease1();
+    await readRelease2();
+    await readRelease2();
+    expect(lock.count).toBe(0);
+    const writeRelease = lock.tryLock('write')!;
+    expect(writeRelease).toBeDefined();
+    expect(lock.writerCount).toBe(1);
+    expect(lock.isLocked('write')).toBeTrue();
+    expect(lock.tryRead()).toBeUndefined();
+    expect(lock.tryWrite()).toBeUndefined();
+    await writeRelease();
+    expect(lock.count).toBe(0);
+    // Acquiring normally after trying works
+    const readRelease = lock.tryRead()!;
+    const readP = lock.read()();
+    const [readRelease_] = await readP;
+    await readRelease();
+    await readRelease_();
+    expect(lock.count).toBe(0);
+    expect(lock.isLocked()).toBeFalse();
+    // Trying the upgradable lock resolves to its handle
+    const [upgradableRelease, upgradable] = lock.tryUpgradable()!;
+    await upgradable!.upgrade();
+    expect(lock.isLocked('write')).toBeTrue();
+    await upgradableRelease();
+    expect(lock.isLocked()).toBeFalse();
+  });
+  test('upgradable lock', async () => {
+    const lock = new RWLockWriter();
+    const [readRelease1] = await lock.lock('read')();
+    const [upgradableRelease, upgradable] = await lock.lock('upgradable')();
+    expect(upgradable!.lock).toBe(lock);
+    expect(lock.isLocked('upgradable')).toBeTrue();
+    expect(lock.isLocked('read')).toBeTrue();
+    expect(lock.readerCount).toBe(2);
+    // Upgradable locks exclude each other
+    await expect(lock.lock('upgradable', { timer: 10 })()).rejects.toThrow(
+      errors.ErrorAsyncLocksTimeout,
+    );
+    expect(lock.tryLock('upgradable')).toBeUndefined();
+    // Upgrading waits for the existing readers
+    let upgraded = false;
+    const upgradeP = upgradable!.upgrade().then(() => {
+      upgraded = true;
+    });
+    await testsUtils.sleep(10);
+    expect(upgraded).toBeFalse();
+    // New readers are blocked while upgrading
+    await expect(lock.lock('read', { timer: 10 })()).rejects.toThrow(
+      errors.ErrorAsyncLocksTimeout,
+    );
+    expect(lock.tryRead()).toBeUndefined();
+    await readRelease1();
+    await upgradeP;
+    expect(upgraded).toBeTrue();
+    expect(lock.isLocked('write')).toBeTrue();
+    expect(lock.isLocked('read')).toBeFalse();
+    expect(lock.readerCount).toBe(0);
+    expect(lock.writerCount).toBe(1);
+    await expect(lock.lock('write', { timer: 10 })()).rejects.toThrow(
+      errors.ErrorAsyncLocksTimeout,
+    );
+    // Upgrading is idempotent
+    await upgradable!.upgrade();
+    await upgradable!.downgrade();
+    expect(lock.isLocked('write')).toBeFalse();
+    expect(lock.isLocked('read')).toBeTrue();
+    expect(lock.readerCount).toBe(1);
+    expect(lock.writerCount).toBe(0);
+    const [readRelease2] = await lock.lock('read', { timer: 10 })();
+    await readRelease2();
+    // Releasing an upgraded lock releases the write lock
+    await upgradable!.upgrade();
+    expect(lock.isLocked('write')).toBeTrue();
+    await upgradableRelease();
+    await upgradableRelease();
+    expect(lock.count).toBe(0);
+    expect(lock.isLocked()).toBeFalse();
+    // Released handles cannot upgrade or downgrade the next holder
+    const [upgradableRelease2] = await lock.lock('upgradable')();
+    await expect(upgradable!.upgrade()).rejects.toThrow(
+      errors.ErrorAsyncLocksRWLockUpgrade,
+    );
+    await expect(upgradable!.downgrade()).rejects.toThrow(
+      errors.ErrorAsyncLocksRWLockUpgrade,
+    );
+    expect(lock.isLocked('write')).toBeFalse();
+    await upgradableRelease2();
+  });
+  test('upgrade timeout', async () => {
+    const lock = new RWLockWriter();
+    await lock.withF('read', async () => {
+      await lock.withF('upgradable', async (upgradable) => {
+        await expect(upgradable.upgrade({ timer: 10 })).rejects.toThrow(
+          errors.ErrorAsyncLocksTimeout,
+        );
+        expect(lock.isLocked('write')).toBeFalse();
+        // Readers can join after the upgrade times out
+        const [readRelease] = await lock.lock('read', { timer: 10 })();
+        await readRelease();
+      });
+    });
+    expect(lock.count).toBe(0);
+    expect(lock.isLocked()).toBeFalse();
+  });
+  test('upgradable lock from read', async () => {
+    const lock = new RWLockWriter();
+    await expect(lock.upgradableFromRead()()).rejects.toThrow(
+      errors.ErrorAsyncLocksRWLockUpgrade,
+    );
+    const [readRelease] = await lock.lock('read')();
+    // Pending writers do not block the conversion
+    const writeP = lock.lock('write')();
+    await testsUtils.sleep(10);
+    const [upgradableRelease, upgradable] = await lock.upgradableFromRead()();
+    expect(lock.isLocked('upgradable')).toBeTrue();
+    expect(lock.readerCount).toBe(1);
+    await upgradable!.upgrade();
+    expect(lock.isLocked('write')).toBeTrue();
+    // Releasing the conversion leaves the read lock held
+    await upgradableRelease();
+    expect(lock.isLocked('upgradable')).toBeFalse();
+    expect(lock.readerCount).toBe(1);
+    await readRelease();
+    const [writeRelease] = await writeP;
+    await writeRelease();
+    expect(lock.isLocked()).toBeFalse();
+  });
   test('abort lock', async () => {
     const lock = new RWLockWriter();
     const [release] = await lock.lock()();
@@ -0,0 +1,181 @@
+import { withF } from '@matrixai/resources';
+import * as testsUtils from './utils.js';
+import ReentrantLock from '#ReentrantLock.js';
+import * as errors from '#errors.js';
+
+describe(ReentrantLock.name, () => {
+  test('withF', async () => {
+    const lock = new ReentrantLock();
+    const p = withF([lock.lock()], async ([lock]) => {
+      expect(lock.isLocked()).toBe(true);
+      expect(lock.count).toBe(1);
+      expect(lock.holdCount).toBe(1);
+    });
+    expect(lock.isLocked()).toBe(true);
+    expect(lock.count).toBe(1);
+    await p;
+    expect(lock.isLocked()).toBe(false);
+    expect(lock.count).toBe(0);
+    expect(lock.holdCount).toBe(0);
+    expect(lock.owner).toBeUndefined();
+  });
+  test('nested withF re-enters with the context owner', async () => {
+    const lock = new ReentrantLock();
+    const result = await lock.withF(async () => {
+      expect(lock.holdCount).toBe(1);
+      return await lock.withF(async () => {
+        expect(lock.holdCount).toBe(2);
+        const [release] = await lock.lock()();
+        expect(lock.holdCount).toBe(3);
+        await release();
+        await testsUtils.sleep(1);
+        return await lock.withF(async () => lock.holdCount);
+      });
+    });
+    expect(result).toBe(3);
+    expect(lock.isLocked()).toBe(false);
+    expect(lock.holdCount).toBe(0);
+  });
+  test('nested withG re-enters with the context owner', async () => {
+    const lock = new ReentrantLock();
+    const g = lock.withG(async function* (): AsyncGenerator<number> {
+      yield lock.holdCount;
+      await testsUtils.sleep(1);
+      yield await lock.withF(async () => lock.holdCount);
+    });
+    const holdCounts: Array<number> = [];
+    for await (const holdCount of g) {
+      holdCounts.push(holdCount);
+    }
+    expect(holdCounts).toStrictEqual([1, 2]);
+    expect(lock.isLocked()).toBe(false);
+  });
+  test('explicit owners re-enter', async () => {
+    const lock = new ReentrantLock();
+    const owner = Symbol('owner');
+    const [release1] = await lock.lock(owner)();
+    const [release2] = await lock.lock(owner, { timer: 10 })();
+    expect(lock.owner).toBe(owner);
+    expect(lock.holdCount).toBe(2);
+    expect(lock.count).toBe(1);
+    const release3 = lock.tryLock(owner)!;
+    expect(release3).toBeDefined();
+    expect(lock.holdCount).toBe(3);
+    expect(lock.tryLock('other')).toBeUndefined();
+    await release1();
+    await release1();
+    expect(lock.isLocked()).toBe(true);
+    await release3();
+    expect(lock.isLocked()).toBe(true);
+    await release2();
+    expect(lock.isLocked()).toBe(false);
+    expect(lock.owner).toBeUndefined();
+  });
+  test('different owners are mutually exclusive', async () => {
+    const lock = new ReentrantLock();
+    let value = 0;
+    await Promise.all([
+      lock.withF('owner1', async () => {
+        const value_ = value + 1;
+        await testsUtils.sleep(100);
+        value = value_;
+      }),
+      lock.withF('owner2', async () => {
+        const value_ = value + 1;
+        await testsUtils.sleep(100);
+        value = value_;
+      }),
+      lock.withF(async () => {
+        const value_ = value + 1;
+        await testsUtils.sleep(100);
+        value = value_;
+      }),
+    ]);
+    expect(value).toBe(3);
+  });
+  test('unlock by owner', async () => {
+    const lock = new ReentrantLock();
+    await lock.lock('owner')();
+    await lock.lock('owner')();
+    await expect(lock.unlock('other')).rejects.toThrow(
+      errors.ErrorAsyncLocksReentrantLockOwner,
+    );
+    await expect(lock.unlock()).rejects.toThrow(
+      errors.ErrorAsyncLocksReentrantLockOwner,
+    );
+    await lock.unlock('owner');
+    expect(lock.holdCount).toBe(1);
+    await lock.unlock('owner');
+    expect(lock.isLocked()).toBe(false);
+    await lock.withF('owner', async () => {
+      await lock.withF(async () => {
+        expect(lock.holdCount).toBe(2);
+        await lock.unlock();
+        expect(lock.holdCount).toBe(1);
+      });
+    });
+    expect(lock.isLocked()).toBe(false);
+  });
+  test('timeout', async () => {
+    const lock = new ReentrantLock();
+    await lock.withF('owner1', async () => {
+      await expect(lock.lock('owner2', { timer: 100 })()).rejects.toThrow(
+        errors.ErrorAsyncLocksTimeout,
+      );
+      await expect(lock.waitForUnlock({ timer: 100 })).rejects.toThrow(
+        errors.ErrorAsyncLocksTimeout,
+      );
+      // Re-entrant locks never time out
+      await lock.withF({ timer: 0 }, async () => {
+        expect(lock.holdCount).toBe(2);
+      });
+    });
+    expect(lock.isLocked()).toBe(false);
+    expect(lock.count).toBe(0);
+  });
+  test('promise cancellation', async () => {
+    const lock = new ReentrantLock();
+    const [release] = await lock.lock()();
+    expect(lock.count).toBe(1);
+    const lockAcquireP = lock.lock()();
+    expect(lock.count).toBe(2);
+    lockAcquireP.cancel(new Error('reason'));
+    await expect(lockAcquireP).rejects.toThrow('reason');
+    await release();
+    expect(lock.count).toBe(0);
+  });
+  test('concurrent acquisitions of an owner join its pending acquisition', async () => {
+    const lock = new ReentrantLock();
+    const p1 = lock.lock('owner')();
+    const p2 = lock.lock('owner')();
+    const [[release1], [release2]] = await Promise.all([p1, p2]);
+    expect(lock.owner).toBe('owner');
+    expect(lock.holdCount).toBe(2);
+    expect(lock.count).toBe(1);
+    await release1();
+    await release2();
+    expect(lock.isLocked()).toBeFalse();
+  });
+  test('concurrent acquisitions of an owner continue when the pending acquisition fails', async () => {
+    const lock = new ReentrantLock();
+    const [release] = await lock.lock('other')();
+    const p1 = lock.lock('owner', { timer: 10 })();
+    const p2 = lock.lock('owner')();
+    await expect(p1).rejects.toThrow(errors.ErrorAsyncLocksTimeout);
+    await release();
+    const [release2] = await p2;
+    expect(lock.owner).toBe('owner');
+    expect(lock.holdCount).toBe(1);
+    await release2();
+    expect(lock.isLocked()).toBeFalse();
+  });
+  test('acquisitions without an owner are not reentrant', async () => {
+    const lock = new ReentrantLock();
+    const [release] = await lock.lock()();
+    await expect(lock.lock({ timer: 10 })()).rejects.toThrow(
+      errors.ErrorAsyncLocksTimeout,
+    );
+    await release();
+    expect(lock.isLocked()).toBeFalse();
+  });
+});
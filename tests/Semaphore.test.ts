@@ -1,4 +1,5 @@
 import type { ResourceRelease } from '@matrixai/resources';
+import type { LockEvent } from '#types.js';
 import { withF, withG } from '@matrixai/resources';
 import * as testsUtils from './utils.js';
 import Semaphore from '#Semaphore.js';
@@ -49,6 +50,35 @@ describe(Semaphore.name, () => {
     const results = await Promise.allSettled([p1, p2, p3]);
     expect(results.every((result) => result.status === 'fulfilled')).toBe(true);
   });
+  test('semaphore limit can be resized', async () => {
+    const semaphore = new Semaphore(1);
+    expect(() => semaphore.setLimit(0)).toThrow(RangeError);
+    const [release1] = await semaphore.lock()();
+    const lockP2 = semaphore.lock()();
+    const lockP3 = semaphore.lock()();
+    await testsUtils.sleep(0);
+    // Growing wakes the queued lockers
+    semaphore.setLimit(3);
+    expect(semaphore.limit).toBe(3);
+    const [[release2], [release3]] = await Promise.all([lockP2, lockP3]);
+    // Shrinking lets the current holders finish
+    semaphore.setLimit(1);
+    const lockP4 = semaphore.lock()();
+    expect(semaphore.tryLock()).toBeUndefined();
+    await release1();
+    await release2();
+    let locked4 = false;
+    void lockP4.then(() => {
+      locked4 = true;
+    });
+    await testsUtils.sleep(0);
+    expect(locked4).toBe(false);
+    await release3();
+    const [release4] = await lockP4;
+    expect(locked4).toBe(true);
+    await release4();
+    expect(semaphore.isLocked()).toBe(false);
+  });
   test('semaphore wait with timeout', async () => {
     const semaphore = new Semaphore(1);
     const [release] = await semaphore.lock()();
@@ -63,9 +93,10 @@ describe(Semaphore.name, () => {
   test('semaphore blocks lockers in FIFO manner with unprioritized weights', async () => {
     const semaphore = new Semaphore(3);
     const [release] = await semaphore.lock(1)();
+    // The smaller weight times out while it is blocked behind the larger one
     await expect(
       Promise.allSettled([
-        semaphore.lock(3, { timer: 10 })(),
+        semaphore.lock(3, { timer: 20 })(),
         semaphore.lock(2, { timer: 10 })(),
       ]),
     ).resolves.toEqual([
@@ -138,6 +169,53 @@ describe(Semaphore.name, () => {
     expect(semaphore.count).toBe(0);
     expect(semaphore.isLocked()).toBeFalse();
   });
+  test('semaphore dequeues equal weights in FIFO order', async () => {
+    for (const priority of [false, true]) {
+      const semaphore = new Semaphore(1, priority);
+      const [release] = await semaphore.lock()();
+      const order: Array<number> = [];
+      // Enough lockers to grow the queue
+      const ps = Array.from({ length: 100 }, (_, i) =>
+        semaphore.withF(async () => {
+          order.push(i);
+        }),
+      );
+      await release();
+      await Promise.all(ps);
+      expect(order).toStrictEqual([...Array(100).keys()]);
+    }
+  });
+  test('semaphore prioritizes small weights', async () => {
+    const semaphore = new Semaphore(3, true);
+    const [release] = await semaphore.lock(3)();
+    const order: Array<number> = [];
+    const ps = [3, 1, 2, 1, 3, 2].map((weight, i) =>
+      semaphore.withF(weight, async () => {
+        order.push(i);
+        await testsUtils.sleep(0);
+      }),
+    );
+    await release();
+    await Promise.all(ps);
+    // The ties between equal weights are dequeued in FIFO order
+    expect(order.slice(0, 3)).toStrictEqual([1, 3, 2]);
+    expect(order.slice(3).sort()).toStrictEqual([0, 4, 5]);
+  });
+  test('uncontended lock resolves without a context', async () => {
+    const semaphore = new Semaphore(2);
+    const lockP1 = semaphore.lock()();
+    expect(semaphore.isLocked()).toBeTrue();
+    const [release1] = await lockP1;
+    // Cancellation after acquisition has no effect
+    const lockP2 = semaphore.lock()();
+    lockP2.cancel(new Error('reason'));
+    const [release2] = await lockP2;
+    expect(semaphore.count).toBe(2);
+    expect(semaphore.tryLock()).toBeUndefined();
+    await release1();
+    await release2();
+    expect(semaphore.count).toBe(0);
+  });
   test('withF', async () => {
     const semaphore = new Semaphore(1);
     const p = withF([semaphore.lock()], async ([lock]) => {
@@ -330,6 +408,22 @@ describe(Semaphore.name, () => {
     expect(semaphore.isLocked()).toBe(false);
     expect(semaphore.count).toBe(0);
   });
+  test('timeout diagnostics', async () => {
+    const semaphore = new Semaphore(2);
+    await semaphore.lock(2)();
+    const lockP1 = semaphore.lock(1, { timer: 200 })();
+    const lockP2 = semaphore.lock(2, { timer: 100 })();
+    const e = await lockP2.catch((e) => e);
+    expect(e).toBeInstanceOf(errors.ErrorAsyncLocksTimeout);
+    expect(e.data).toMatchObject({
+      lock: 'Semaphore',
+      weight: 2,
+      queuePosition: 1,
+      holderCount: 1,
+    });
+    expect(e.data.elapsed).toBeGreaterThanOrEqual(90);
+    await expect(lockP1).rejects.toThrow(errors.ErrorAsyncLocksTimeout);
+  });
   test('timeout waiting for unlock', async () => {
     const semaphore = new Semaphore(1);
     await semaphore.waitForUnlock(undefined, { timer: 100 });
@@ -372,6 +466,253 @@ describe(Semaphore.name, () => {
     await release();
     expect(semaphore.count).toBe(0);
   });
+  test('semaphore dequeues higher priorities first', async () => {
+    const semaphore = new Semaphore(1);
+    const [release] = await semaphore.lock()();
+    const order: Array<number> = [];
+    const ps = [0, 1, 0, 2, 1].map((priority, i) =>
+      semaphore.withF({ priority }, async () => {
+        order.push(i);
+      }),
+    );
+    await release();
+    await Promise.all(ps);
+    // The ties between equal priorities are dequeued in FIFO order
+    expect(order).toStrictEqual([3, 1, 4, 0, 2]);
+  });
+  test('semaphore ages low priority waiters', async () => {
+    const semaphore = new Semaphore(1, false, { aging: 10 });
+    const [release] = await semaphore.lock()();
+    const order: Array<number> = [];
+    const p1 = semaphore.withF({ priority: 0 }, async () => {
+      order.push(1);
+    });
+    await testsUtils.sleep(50);
+    // The first waiter has been promoted past this waiter by now
+    const p2 = semaphore.withF({ priority: 2 }, async () => {
+      order.push(2);
+    });
+    await release();
+    await Promise.all([p1, p2]);
+    expect(order).toStrictEqual([1, 2]);
+    expect(() => new Semaphore(1, false, { aging: 0 })).toThrow(RangeError);
+  });
+  test('semaphore smallest first scheduling is starvation bounded', async () => {
+    const semaphore = new Semaphore(2, false, {
+      scheduling: 'smallestFirst',
+      starvationBound: 2,
+    });
+    const [release] = await semaphore.lock(1)();
+    const heavyP = semaphore.lock(2)();
+    // Light waiters overtake the heavy waiter until the bound is reached
+    for (let i = 0; i < 2; i++) {
+      const [lightRelease] = await semaphore.lock(1)();
+      await lightRelease();
+    }
+    let lightAcquired = false;
+    const lightP = semaphore
+      .lock(1)()
+      .then((acquired) => {
+        lightAcquired = true;
+        return acquired;
+      });
+    await testsUtils.sleep(0);
+    expect(lightAcquired).toBeFalse();
+    await release();
+    const [heavyRelease] = await heavyP;
+    expect(lightAcquired).toBeFalse();
+    await heavyRelease();
+    const [lightRelease] = await lightP;
+    await lightRelease();
+    expect(semaphore.count).toBe(0);
+  });
+  test('semaphore reserve scheduling reserves released capacity', async () => {
+    const semaphore = new Semaphore(4, false, { scheduling: 'reserve' });
+    const [release1] = await semaphore.lock(2)();
+    const [release2] = await semaphore.lock(1)();
+    const heavyP = semaphore.lock(3)();
+    // The capacity that was free before the heavy waiter blocked is not reserved
+    const [lightRelease1] = await semaphore.lock(1)();
+    await release2();
+    // The released capacity is reserved for the heavy waiter
+    let lightAcquired = false;
+    const lightP = semaphore
+      .lock(1)()
+      .then((acquired) => {
+        lightAcquired = true;
+        return acquired;
+      });
+    await testsUtils.sleep(0);
+    expect(lightAcquired).toBeFalse();
+    await release1();
+    const [heavyRelease] = await heavyP;
+    expect(lightAcquired).toBeFalse();
+    await lightRelease1();
+    const [lightRelease2] = await lightP;
+    await heavyRelease();
+    await lightRelease2();
+    expect(semaphore.count).toBe(0);
+  });
+  test('semaphore reserve scheduling drops the reservation of aborted waiters', async () => {
+    const semaphore = new Semaphore(4, false, { scheduling: 'reserve' });
+    const [release1] = await semaphore.lock(2)();
+    const [release2] = await semaphore.lock(1)();
+    const abc = new AbortController();
+    const heavyP = semaphore.lock(4, { signal: abc.signal })();
+    await release2();
+    // The released capacity is reserved for the heavy waiter
+    let lightAcquired = false;
+    const lightP = semaphore
+      .lock(2)()
+      .then((acquired) => {
+        lightAcquired = true;
+        return acquired;
+      });
+    await testsUtils.sleep(0);
+    expect(lightAcquired).toBeFalse();
+    abc.abort(new Error('stop'));
+    await expect(heavyP).rejects.toThrow('stop');
+    const [lightRelease] = await lightP;
+    // Released capacity is not reserved for the aborted waiter
+    await lightRelease();
+    const [release3] = await semaphore.lock(2, { timer: 10 })();
+    await release1();
+    await release3();
+    expect(semaphore.count).toBe(0);
+  });
+  test('semaphore rejects waiters when the queue is full', async () => {
+    const semaphore = new Semaphore(2, false, {
+      maxQueueLength: 2,
+      maxQueueWeight: 3,
+    });
+    const [release] = await semaphore.lock(2)();
+    const p1 = semaphore.lock(1)();
+    await expect(semaphore.lock(3)()).rejects.toThrow(
+      errors.ErrorAsyncLocksQueueFull,
+    );
+    const p2 = semaphore.lock(2)();
+    await expect(semaphore.waitForUnlock()).rejects.toThrow(
+      errors.ErrorAsyncLocksQueueFull,
+    );
+    // Rejected waiters are not counted
+    expect(semaphore.count).toBe(3);
+    await release();
+    const [release1] = await p1;
+    await release1();
+    const [release2] = await p2;
+    await release2();
+    expect(semaphore.count).toBe(0);
+  });
+  test('semaphore emits lifecycle events', async () => {
+    const events: Array<LockEvent> = [];
+    const semaphore = new Semaphore(2, false, {
+      instrument: (event) => events.push(event),
+    });
+    const [release] = await semaphore.lock(2)();
+    // Only successful tries emit events
+    expect(semaphore.tryLock(1)).toBeUndefined();
+    await expect(semaphore.lock(1, { timer: 10 })()).rejects.toThrow(
+      errors.ErrorAsyncLocksTimeout,
+    );
+    const abortController = new AbortController();
+    const lockP = semaphore.lock(1, { signal: abortController.signal })();
+    abortController.abort(new Error('stop'));
+    await expect(lockP).rejects.toThrow('stop');
+    await release();
+    await release();
+    const tryRelease = semaphore.tryLock(1)!;
+    await tryRelease();
+    expect(events.map(({ event, weight }) => [event, weight])).toStrictEqual([
+      ['queued', 2],
+      ['acquired', 2],
+      ['queued', 1],
+      ['timedout', 1],
+      ['queued', 1],
+      ['aborted', 1],
+      ['released', 2],
+      ['queued', 1],
+      ['acquired', 1],
+      ['released', 1],
+    ]);
+    expect(events[8].waitDuration).toBeLessThan(1);
+    expect(events[3].waitDuration).toBeGreaterThanOrEqual(9);
+    expect(events[3].reason).toBeInstanceOf(errors.ErrorAsyncLocksTimeout);
+    expect(events[6].holdDuration).toBeGreaterThanOrEqual(9);
+  });
+  test('semaphore collects contention statistics', async () => {
+    const semaphore = new Semaphore(1);
+    const [release] = await semaphore.lock()();
+    const lockP = semaphore.lock()();
+    await expect(semaphore.lock({ timer: 10 })()).rejects.toThrow(
+      errors.ErrorAsyncLocksTimeout,
+    );
+    const abortController = new AbortController();
+    const abortP = semaphore.lock({ signal: abortController.signal })();
+    abortController.abort(new Error('stop'));
+    await expect(abortP).rejects.toThrow('stop');
+    let stats = semaphore.stats();
+    expect(stats.acquisitions).toBe(1);
+    expect(stats.timeouts).toBe(1);
+    expect(stats.aborts).toBe(1);
+    expect(stats.queueLength).toBe(1);
+    expect(stats.peakQueueLength).toBe(2);
+    await release();
+    const [release_] = await lockP;
+    await release_();
+    stats = semaphore.stats();
+    expect(stats.acquisitions).toBe(2);
+    expect(stats.queueLength).toBe(0);
+    expect(stats.waitTime.max).toBeGreaterThanOrEqual(9);
+    expect(stats.waitTime.p50).toBeLessThanOrEqual(stats.waitTime.max);
+    expect(stats.holdTime.max).toBeGreaterThanOrEqual(9);
+    semaphore.resetStats();
+    expect(semaphore.stats()).toStrictEqual({
+      acquisitions: 0,
+      timeouts: 0,
+      aborts: 0,
+      queueLength: 0,
+      peakQueueLength: 0,
+      waitTime: { p50: 0, p90: 0, p99: 0, max: 0 },
+      holdTime: { p50: 0, p90: 0, p99: 0, max: 0 },
+    });
+  });
+  test('semaphore acquisitions carry increasing fencing tokens', async () => {
+    const semaphore = new Semaphore(2);
+    const [release1] = await semaphore.lock()();
+    const [release2] = await semaphore.lock()();
+    expect(release2.token).toBeGreaterThan(release1.token);
+    const lockP = semaphore.lock()();
+    await release1();
+    const [release3] = await lockP;
+    expect(release3.token).toBeGreaterThan(release2.token);
+    await release2();
+    const release4 = semaphore.tryLock()!;
+    expect(release4.token).toBeGreaterThan(release3.token);
+    await release3();
+    await release4();
+  });
+  test('try lock', async () => {
+    const semaphore = new Semaphore(3);
+    expect(() => semaphore.tryLock(0)).toThrow(RangeError);
+    const release1 = semaphore.tryLock(2)!;
+    expect(release1).toBeDefined();
+    expect(semaphore.count).toBe(1);
+    expect(semaphore.tryLock(2)).toBeUndefined();
+    expect(semaphore.count).toBe(1);
+    const release2 = semaphore.tryLock(1)!;
+    expect(release2).toBeDefined();
+    expect(semaphore.count).toBe(2);
+    // Queued lockers are not overtaken
+    const lockP = semaphore.lock(2)();
+    await release2();
+    expect(semaphore.tryLock(1)).toBeUndefined();
+    await release1();
+    await release1();
+    const [release3] = await lockP;
+    await release3();
+    expect(semaphore.count).toBe(0);
+    expect(semaphore.isLocked()).toBeFalse();
+  });
   test('abort lock', async () => {
     const semaphore = new Semaphore(3);
     const [release] = await semaphore.lock(1)();
@@ -388,4 +729,25 @@ describe(Semaphore.name, () => {
     expect(semaphore.count).toBe(0);
     expect(semaphore.isLocked()).toBeFalse();
   });
+  test('aborting the head of the queue dequeues the waiters behind it', async () => {
+    const semaphore = new Semaphore(2);
+    const [release] = await semaphore.lock(1)();
+    // The light waiters fit once the blocked heavy waiters are aborted
+    const abc1 = new AbortController();
+    const heavyLockP = semaphore.lock(2, { signal: abc1.signal })();
+    const lightLockP = semaphore.lock(1)();
+    abc1.abort(new Error('stop'));
+    await expect(heavyLockP).rejects.toThrow('stop');
+    const [lightRelease] = await lightLockP;
+    await lightRelease();
+    const abc2 = new AbortController();
+    const heavyWaitP = semaphore.waitForUnlock(2, { signal: abc2.signal });
+    const lightWaitP = semaphore.waitForUnlock(1);
+    abc2.abort(new Error('stop'));
+    await expect(heavyWaitP).rejects.toThrow('stop');
+    await lightWaitP;
+    await release();
+    expect(semaphore.count).toBe(0);
+    expect(semaphore.isLocked()).toBeFalse();
+  });
 });
@@ -0,0 +1,161 @@
+import WaitForGraph from '#WaitForGraph.js';
+import * as utils from '#utils.js';
+import * as errors from '#errors.js';
+
+describe(WaitForGraph.name, () => {
+  test('conflicting holders are blockers', () => {
+    const waitForGraph = new WaitForGraph();
+    const owner1 = {};
+    const owner2 = {};
+    const owner3 = {};
+    waitForGraph.hold(owner1, 'a', 'read');
+    waitForGraph.hold(owner2, 'a', 'read');
+    const wait = waitForGraph.wait(owner3, 'a', 'read', { abort: () => {} });
+    expect(waitForGraph.blockers(owner3).size).toBe(0);
+    waitForGraph.unwait(wait);
+    waitForGraph.wait(owner3, 'a', 'write', { abort: () => {} });
+    expect([...waitForGraph.blockers(owner3)]).toStrictEqual([owner1, owner2]);
+    waitForGraph.unhold(owner1, 'a');
+    expect([...waitForGraph.blockers(owner3)]).toStrictEqual([owner2]);
+  });
+  test('queued writers block readers of writer preferring locks', () => {
+    const waitForGraph = new WaitForGraph();
+    const owner1 = {};
+    const owner2 = {};
+    const owner3 = {};
+    waitForGraph.hold(owner1, 'a', 'read');
+    waitForGraph.wait(owner2, 'a', 'write', { abort: () => {} });
+    const wait = waitForGraph.wait(owner3, 'a', 'read', { abort: () => {} });
+    expect([...waitForGraph.blockers(owner3)]).toStrictEqual([owner2]);
+    waitForGraph.unwait(wait);
+    waitForGraph.wait(owner3, 'a', 'read', {
+      writerPreferring: false,
+      abort: () => {},
+    });
+    expect(waitForGraph.blockers(owner3).size).toBe(0);
+  });
+  test('upgrades wait for other holders and not queued writers', () => {
+    const waitForGraph = new WaitForGraph();
+    const owner1 = {};
+    const owner2 = {};
+    const owner3 = {};
+    const aborts: Array<object> = [];
+    waitForGraph.hold(owner1, 'a', 'read');
+    waitForGraph.hold(owner2, 'a', 'read');
+    // Owner3 queues for write behind both readers
+    waitForGraph.wait(owner3, 'a', 'write', {
+      abort: () => aborts.push(owner3),
+    });
+    // The read lock is converted in place, so the queued writer is not ahead
+    waitForGraph.wait(owner1, 'a', 'upgrade', {
+      abort: () => aborts.push(owner1),
+    });
+    expect([...waitForGraph.blockers(owner1)]).toStrictEqual([owner2]);
+    expect(aborts).toHaveLength(0);
+    // Owner2 upgrading as well is blocked by the upgrading holder
+    waitForGraph.wait(owner2, 'a', 'upgrade', {
+      abort: () => aborts.push(owner2),
+    });
+    expect(aborts).toStrictEqual([owner2]);
+  });
+  test('only the victim of a cycle is aborted', () => {
+    const waitForGraph = new WaitForGraph();
+    const owner1 = {};
+    const owner2 = {};
+    const owner3 = {};
+    const aborts: Array<[object, Error]> = [];
+    waitForGraph.hold(owner1, 'a', 'write');
+    waitForGraph.hold(owner2, 'b', 'write');
+    waitForGraph.hold(owner3, 'c', 'write');
+    waitForGraph.wait(owner2, 'c', 'write', {
+      abort: (e) => aborts.push([owner2, e]),
+    });
+    waitForGraph.wait(owner3, 'a', 'write', {
+      abort: (e) => aborts.push([owner3, e]),
+    });
+    expect(aborts).toHaveLength(0);
+    // Owner1 closes the cycle, but owner3 was registered last
+    waitForGraph.wait(owner1, 'b', 'write', {
+      abort: (e) => aborts.push([owner1, e]),
+    });
+    expect(aborts).toHaveLength(1);
+    expect(aborts[0][0]).toBe(owner3);
+    expect(aborts[0][1]).toBeInstanceOf(errors.ErrorAsyncLocksMonitorDeadlock);
+    // The waits of the victim are unregistered
+    expect(waitForGraph.blockers(owner3).size).toBe(0);
+  });
+  test('deadlock errors describe the cycle', () => {
+    const waitForGraph = new WaitForGraph();
+    const owner1 = {};
+    const owner2 = {};
+    let error: errors.ErrorAsyncLocksMonitorDeadlock<unknown> | undefined;
+    waitForGraph.hold(owner1, 'a', 'read');
+    waitForGraph.hold(owner2, 'b', 'write');
+    waitForGraph.hold(owner2, 'c', 'read');
+    waitForGraph.wait(owner1, 'b', 'read', { abort: () => {} });
+    waitForGraph.wait(owner2, 'a', 'write', {
+      abort: (e) => {
+        error = e as errors.ErrorAsyncLocksMonitorDeadlock<unknown>;
+      },
+    });
+    expect(error).toBeInstanceOf(errors.ErrorAsyncLocksMonitorDeadlock);
+    expect(error!.data).toStrictEqual({
+      owner: 1,
+      key: 'a',
+      type: 'write',
+      held: [
+        ['b', 'write'],
+        ['c', 'read'],
+      ],
+      cycle: [
+        {
+          owner: 1,
+          key: 'a',
+          type: 'write',
+          blocker: 0,
+          blockerType: 'read',
+          blockerStatus: 'held',
+        },
+        {
+          owner: 0,
+          key: 'b',
+          type: 'read',
+          blocker: 1,
+          blockerType: 'write',
+          blockerStatus: 'held',
+        },
+      ],
+    });
+    expect(waitForGraph.getId(owner2)).toBe(1);
+    expect(utils.renderDeadlock(error!.data as any)).toBe(
+      [
+        'owner 1 was aborted waiting for write on a while holding write on b, read on c',
+        'owner 1 waits for write on a held for read by owner 0',
+        '-> owner 0 waits for read on b held for write by owner 1',
+      ].join('\n'),
+    );
+  });
+  test('victim policies', () => {
+    for (const [victimPolicy, victimIndex] of [
+      ['youngest', 1],
+      ['fewestLocks', 0],
+      ['priority', 1],
+    ] as const) {
+      const waitForGraph = new WaitForGraph(victimPolicy);
+      const owners = [{}, {}];
+      const aborted: Array<object> = [];
+      waitForGraph.hold(owners[0], 'a', 'write');
+      waitForGraph.hold(owners[1], 'b', 'write');
+      waitForGraph.hold(owners[1], 'c', 'write');
+      waitForGraph.wait(owners[0], 'b', 'write', {
+        priority: 1,
+        abort: () => aborted.push(owners[0]),
+      });
+      waitForGraph.wait(owners[1], 'a', 'write', {
+        priority: 0,
+        abort: () => aborted.push(owners[1]),
+      });
+      expect(aborted).toStrictEqual([owners[victimIndex]]);
+    }
+  });
+});
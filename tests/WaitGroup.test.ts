@@ -0,0 +1,70 @@
+import * as testsUtils from './utils.js';
+import WaitGroup from '#WaitGroup.js';
+import * as errors from '#errors.js';
+
+describe(WaitGroup.name, () => {
+  test('wait group waits until all operations are done', async () => {
+    const waitGroup = new WaitGroup();
+    await expect(waitGroup.wait()).resolves.toBeUndefined();
+    waitGroup.add(2);
+    let called = false;
+    const waitP = waitGroup.wait().then(() => {
+      called = true;
+    });
+    waitGroup.done();
+    await testsUtils.sleep(1);
+    expect(waitGroup.count).toBe(1);
+    expect(called).toBe(false);
+    waitGroup.done();
+    await waitP;
+    expect(called).toBe(true);
+  });
+  test('wait group wraps promises and functions', async () => {
+    const waitGroup = new WaitGroup();
+    const p1 = waitGroup.wrap(testsUtils.sleep(10).then(() => 1));
+    const p2 = waitGroup.wrap(async () => {
+      await testsUtils.sleep(20);
+      throw new Error('failed');
+    });
+    const p3 = waitGroup.wrap(() => 3);
+    expect(waitGroup.count).toBe(3);
+    await expect(p3).resolves.toBe(3);
+    await expect(p1).resolves.toBe(1);
+    expect(waitGroup.count).toBe(1);
+    await expect(waitGroup.wait()).resolves.toBeUndefined();
+    await expect(p2).rejects.toThrow('failed');
+    expect(waitGroup.count).toBe(0);
+    await expect(
+      waitGroup.wrap(() => {
+        throw new Error('thrown');
+      }),
+    ).rejects.toThrow('thrown');
+    expect(waitGroup.count).toBe(0);
+  });
+  test('wait group counter cannot go negative', () => {
+    const waitGroup = new WaitGroup();
+    expect(() => waitGroup.done()).toThrow(
+      errors.ErrorAsyncLocksWaitGroupNegative,
+    );
+    waitGroup.add(1);
+    expect(() => waitGroup.add(-2)).toThrow(
+      errors.ErrorAsyncLocksWaitGroupNegative,
+    );
+    expect(waitGroup.count).toBe(1);
+  });
+  test('wait group wait with timeout and abort', async () => {
+    const waitGroup = new WaitGroup();
+    waitGroup.add();
+    await expect(waitGroup.wait({ timer: 10 })).rejects.toThrow(
+      errors.ErrorAsyncLocksTimeout,
+    );
+    const abc = new AbortController();
+    const waitP = waitGroup.wait({ signal: abc.signal });
+    abc.abort(new Error('stop'));
+    await expect(waitP).rejects.toThrow('stop');
+    const cancelP = waitGroup.wait();
+    cancelP.cancel(new Error('cancel'));
+    await expect(cancelP).rejects.toThrow('cancel');
+    expect(waitGroup.count).toBe(1);
+  });
+});
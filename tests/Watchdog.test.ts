@@ -0,0 +1,93 @@
+import type { WatchdogHold } from '#types.js';
+import v8 from 'node:v8';
+import vm from 'node:vm';
+import { sleep } from './utils.js';
+import Watchdog from '#Watchdog.js';
+import Lock from '#Lock.js';
+import LockBox from '#LockBox.js';
+import Monitor from '#Monitor.js';
+import RWLockWriter from '#RWLockWriter.js';
+import Semaphore from '#Semaphore.js';
+
+v8.setFlagsFromString('--expose-gc');
+const gc: () => void = vm.runInNewContext('gc');
+
+describe(Watchdog.name, () => {
+  test('records the acquisition stack of each hold', async () => {
+    const watchdog = new Watchdog();
+    const lock = new Lock({ watchdog });
+    const acquireLock = async () => {
+      const [release] = await lock.lock()();
+      return release;
+    };
+    const release = await acquireLock();
+    expect(watchdog.holds.size).toBe(1);
+    const [hold] = watchdog.holds;
+    expect(hold.lock).toBe(Lock.name);
+    expect(hold.stack).toMatch(/acquireLock/);
+    await release();
+    expect(watchdog.holds.size).toBe(0);
+    const tryRelease = lock.tryLock()!;
+    expect(watchdog.holds.size).toBe(1);
+    await tryRelease();
+    await tryRelease();
+    expect(watchdog.holds.size).toBe(0);
+  });
+  test('reports holds exceeding the threshold', async () => {
+    const longHolds: Array<WatchdogHold> = [];
+    const watchdog = new Watchdog({
+      holdThreshold: 50,
+      onLongHold: (hold) => {
+        longHolds.push(hold);
+      },
+    });
+    const semaphore = new Semaphore(2, false, { watchdog });
+    const rwLock = new RWLockWriter({ watchdog });
+    const [semaphoreRelease] = await semaphore.lock(2)();
+    const [readRelease] = await rwLock.lock('read')();
+    const [shortRelease] = await rwLock.lock('read')();
+    await shortRelease();
+    await sleep(100);
+    expect(longHolds).toHaveLength(2);
+    expect(longHolds[0]).toMatchObject({ lock: Semaphore.name, weight: 2 });
+    expect(longHolds[1]).toMatchObject({
+      lock: RWLockWriter.name,
+      type: 'read',
+    });
+    await semaphoreRelease();
+    await readRelease();
+    expect(watchdog.holds.size).toBe(0);
+  });
+  test('reports release functions garbage collected without being called', async () => {
+    const leaks: Array<WatchdogHold> = [];
+    const watchdog = new Watchdog({
+      onLeak: (hold) => {
+        leaks.push(hold);
+      },
+    });
+    const lockBox = new LockBox<RWLockWriter>({ watchdog });
+    const monitor = new Monitor<RWLockWriter>(lockBox, RWLockWriter);
+    // The release functions are dropped on the floor
+    const leakLocks = async () => {
+      await lockBox.lock(['a', RWLockWriter, 'write'])();
+      await monitor.lock(['b', 'read'])();
+    };
+    await leakLocks();
+    expect(watchdog.holds.size).toBe(2);
+    // The monitor still holds its keys until it is unlocked or collected
+    await monitor.unlockAll();
+    expect(watchdog.holds.size).toBe(1);
+    for (let i = 0; i < 10 && leaks.length < 1; i++) {
+      gc();
+      await sleep(10);
+    }
+    expect(leaks).toHaveLength(1);
+    expect(leaks[0]).toMatchObject({
+      lock: LockBox.name,
+      key: 'a',
+      type: 'write',
+    });
+    expect(watchdog.holds.size).toBe(0);
+    expect(lockBox.isLocked('a')).toBe(true);
+  });
+});
@@ -0,0 +1,78 @@
+import type { LockEvent, ResourceReleaseFenced } from '#types.js';
+import { PromiseCancellable } from '@matrixai/async-cancellable';
+import * as utils from '#utils.js';
+import * as errors from '#errors.js';
+
+describe('utils', () => {
+  describe(utils.Waiters.name, () => {
+    test('waiters are woken in order', async () => {
+      const waiters = new utils.Waiters<number>('Test');
+      const order: Array<number> = [];
+      const p1 = waiters.wait().then((v) => order.push(v));
+      const p2 = waiters.wait().then((v) => order.push(v));
+      expect(waiters.size).toBe(2);
+      expect(waiters.wakeOne(1)).toBe(true);
+      await p1;
+      expect(order).toStrictEqual([1]);
+      waiters.wakeAll(2);
+      await p2;
+      expect(order).toStrictEqual([1, 2]);
+      expect(waiters.size).toBe(0);
+      expect(waiters.wakeOne(3)).toBe(false);
+    });
+    test('waiters time out with the lock', async () => {
+      const waiters = new utils.Waiters('Test');
+      const waitP = waiters.wait({ timer: 10 });
+      await expect(waitP).rejects.toThrow(errors.ErrorAsyncLocksTimeout);
+      await waitP.catch((e) => {
+        expect(e.data.lock).toBe('Test');
+      });
+      expect(waiters.size).toBe(0);
+    });
+    test('aborted and cancelled waiters are not woken', async () => {
+      const waiters = new utils.Waiters('Test');
+      const abc = new AbortController();
+      abc.abort(new Error('before'));
+      await expect(waiters.wait({ signal: abc.signal })).rejects.toThrow(
+        'before',
+      );
+      const abc_ = new AbortController();
+      const abortP = waiters.wait({ signal: abc_.signal });
+      abc_.abort(new Error('stop'));
+      await expect(abortP).rejects.toThrow('stop');
+      const cancelP = waiters.wait();
+      cancelP.cancel(new Error('cancel'));
+      await expect(cancelP).rejects.toThrow('cancel');
+      expect(waiters.size).toBe(0);
+      const waitP = waiters.wait();
+      expect(waiters.wakeOne()).toBe(true);
+      await expect(waitP).resolves.toBeUndefined();
+    });
+  });
+  test('instrumented releases keep their fencing token', async () => {
+    const events: Array<string> = [];
+    const instrument = ({ event }: LockEvent) => void events.push(event);
+    const [acquiredRelease] = await utils.instrumentAcquire(
+      PromiseCancellable.resolve([utils.fence(async () => {}, 1)] as const),
+      instrument,
+      { lock: 'Test' },
+    );
+    expect((acquiredRelease as ResourceReleaseFenced).token).toBe(1);
+    const triedRelease = utils.instrumentTryLock(
+      utils.fence(async () => {}, 2),
+      instrument,
+      { lock: 'Test' },
+    );
+    expect((triedRelease as ResourceReleaseFenced).token).toBe(2);
+    await acquiredRelease();
+    await triedRelease();
+    expect(events).toStrictEqual([
+      'queued',
+      'acquired',
+      'queued',
+      'acquired',
+      'released',
+      'released',
+    ]);
+  });
+});